@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { scene } from '../renderer/renderer';
+import { raycastVoxels, type VoxelHit } from '../world/voxel-raycast';
+import { getBlock, setBlock } from '../world/voxel-store';
+import { scheduleWaterUpdate } from '../world/water';
+import { BlockType, getBlockDefinition, getBlockName, getBlocks, isSolidBlock } from '../world/blocks';
+import { addToInventory, getInventoryCount, takeFromInventory } from './inventory';
+import { setSelectedToolLabel } from '../ui/hud';
+
+// How far away (in blocks) the player can break and place blocks
+export const BLOCK_REACH = 6;
+
+// Hotbar slots: slot 0 is the gun, the rest hold every registered block in registration order
+let selectedSlot = 1;
+
+// Block currently under the crosshair
+let currentTarget: VoxelHit | null = null;
+
+// Digging: whether the break button is held, and seconds spent on the current target
+let isBreaking = false;
+let breakProgress = 0;
+
+// Highlight drawn over the targeted face
+const HIGHLIGHT_OPACITY = 0.35;
+const highlightMaterial = new THREE.MeshBasicMaterial({
+  color: 0xffffff,
+  transparent: true,
+  opacity: HIGHLIGHT_OPACITY,
+  depthWrite: false,
+  side: THREE.DoubleSide
+});
+const faceHighlight = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), highlightMaterial);
+faceHighlight.add(new THREE.LineSegments(
+  new THREE.EdgesGeometry(new THREE.PlaneGeometry(1, 1)),
+  new THREE.LineBasicMaterial({ color: 0x000000 })
+));
+faceHighlight.visible = false;
+scene.add(faceHighlight);
+
+const _faceNormal = new THREE.Vector3();
+const _lookTarget = new THREE.Vector3();
+
+function getHotbarBlock(slot: number): BlockType | null {
+  return slot === 0 ? null : getBlocks()[slot - 1]?.id ?? null;
+}
+
+/**
+ * Selects a hotbar slot (0 = gun, 1 and up = blocks)
+ */
+export function selectHotbarSlot(slot: number): void {
+  if (slot < 0 || slot > getBlocks().length) return;
+  selectedSlot = slot;
+  breakProgress = 0;
+  updateToolLabel();
+}
+
+/**
+ * Moves the selection along the hotbar by step slots, wrapping around at either end
+ */
+export function cycleHotbarSlot(step: number): void {
+  const slots = getBlocks().length + 1;
+  selectHotbarSlot(((selectedSlot + step) % slots + slots) % slots);
+}
+
+/**
+ * Shows the selected tool and how many of the selected block are left
+ */
+export function updateToolLabel(): void {
+  const block = getSelectedBlock();
+  setSelectedToolLabel(block === null ? 'Gun' : `${getBlockName(block)} (${getInventoryCount(block)})`);
+}
+
+/**
+ * Returns the block type to place, or null when the gun is selected
+ */
+export function getSelectedBlock(): BlockType | null {
+  return getHotbarBlock(selectedSlot);
+}
+
+/**
+ * Finds the block under the crosshair, moves the face highlight onto it and digs into it while
+ * the break button is held. Should be called every frame with the camera ray.
+ */
+export function updateBlockTarget(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number, deltaTime: number): void {
+  const previous = currentTarget?.position;
+  currentTarget = getSelectedBlock() !== null ? raycastVoxels(origin, direction, maxDistance) : null;
+
+  // Looking at another block starts the digging over
+  const position = currentTarget?.position;
+  if (!position || !previous || position.x !== previous.x || position.y !== previous.y || position.z !== previous.z) {
+    breakProgress = 0;
+  }
+
+  if (!currentTarget) {
+    faceHighlight.visible = false;
+    return;
+  }
+
+  if (isBreaking) {
+    breakProgress += deltaTime;
+    if (breakTargetBlock()) return;
+  }
+
+  const { normal } = currentTarget;
+  _faceNormal.set(normal.x, normal.y, normal.z);
+
+  // Sit just above the face so it doesn't z-fight with the block
+  faceHighlight.position.set(currentTarget.position.x, currentTarget.position.y, currentTarget.position.z).addScaledVector(_faceNormal, 0.505);
+  faceHighlight.lookAt(_lookTarget.copy(faceHighlight.position).add(_faceNormal));
+  // The highlight brightens as the block is dug out
+  const hardness = getBlockDefinition(getBlock(currentTarget.position.x, currentTarget.position.y, currentTarget.position.z))?.hardness ?? 0;
+  highlightMaterial.opacity = HIGHLIGHT_OPACITY + (hardness > 0 ? Math.min(breakProgress / hardness, 1) * 0.5 : 0);
+  faceHighlight.visible = true;
+}
+
+/**
+ * Starts digging into the block under the crosshair - it breaks once the button has been held
+ * for the block's hardness in seconds
+ */
+export function startBreaking(): void {
+  isBreaking = true;
+  breakTargetBlock();
+}
+
+export function stopBreaking(): void {
+  isBreaking = false;
+  breakProgress = 0;
+}
+
+/**
+ * Removes the block under the crosshair if it has been dug long enough, and puts its drops in
+ * the inventory
+ */
+function breakTargetBlock(): boolean {
+  if (!currentTarget) return false;
+
+  const { x, y, z } = currentTarget.position;
+  // The bottom layer of the world can't be broken, otherwise the player falls out of it
+  if (y <= 0) return false;
+
+  const definition = getBlockDefinition(getBlock(x, y, z));
+  if (!definition || definition.hardness < 0 || breakProgress < definition.hardness) return false;
+
+  const broken = setBlock(x, y, z, BlockType.Air);
+  if (broken) {
+    currentTarget = null;
+    faceHighlight.visible = false;
+    breakProgress = 0;
+    scheduleWaterUpdate(x, y, z);
+    for (const drop of definition.drops) {
+      addToInventory(drop.block, drop.count);
+    }
+    updateToolLabel();
+  }
+  return broken;
+}
+
+/**
+ * Places the selected block against the targeted face, taking it from the inventory
+ *
+ * @param playerBox The player's bounding box - blocks are never placed inside the player
+ */
+export function placeSelectedBlock(playerBox: THREE.Box3): boolean {
+  const block = getSelectedBlock();
+  if (!currentTarget || block === null || getInventoryCount(block) <= 0) return false;
+
+  const x = currentTarget.position.x + currentTarget.normal.x;
+  const y = currentTarget.position.y + currentTarget.normal.y;
+  const z = currentTarget.position.z + currentTarget.normal.z;
+
+  // Only replace air or water
+  if (isSolidBlock(getBlock(x, y, z))) return false;
+
+  const blockBox = new THREE.Box3(
+    new THREE.Vector3(x - 0.5, y - 0.5, z - 0.5),
+    new THREE.Vector3(x + 0.5, y + 0.5, z + 0.5)
+  );
+  if (blockBox.intersectsBox(playerBox)) return false;
+
+  const placed = setBlock(x, y, z, block);
+  if (placed) {
+    currentTarget = null;
+    takeFromInventory(block);
+    scheduleWaterUpdate(x, y, z);
+    updateToolLabel();
+  }
+  return placed;
+}
@@ -1,8 +1,9 @@
 import * as THREE from 'three';
 import { player, playerHeight, playerCharacter, velocityY, onGround, GRAVITY, JUMP_FORCE, gun, createProjectile } from './player';
 import { camera, scene } from '../renderer/renderer';
-import { getTerrainHeightAt } from '../world/terrain';
-import { getActualTerrainHeight } from '../world/chunkmanager';
+import { constrainToWorld } from '../world/world-config';
+import { BLOCK_REACH, cycleHotbarSlot, getSelectedBlock, placeSelectedBlock, selectHotbarSlot, startBreaking, stopBreaking, updateBlockTarget } from './block-interaction';
+import { movePlayer, PLAYER_WIDTH } from './collision';
 import type { HumanCharacter } from './playerModel';
 import type { Gun } from '../items/gun';
 
@@ -36,6 +37,8 @@ const _forward = new THREE.Vector3();
 const _right = new THREE.Vector3();
 const _up = new THREE.Vector3(0, 1, 0);
 const _movement = new THREE.Vector3();
+const _rayOrigin = new THREE.Vector3();
+const _rayDirection = new THREE.Vector3();
 
 document.addEventListener('click', () => {
   document.body.requestPointerLock();
@@ -50,6 +53,11 @@ document.addEventListener('keydown', (e) => {
     isOrbiting = true;
   }
 
+  // Number keys pick the hotbar slot (0 = gun, 1-9 = the first blocks, the mouse wheel reaches the rest)
+  if (key >= '0' && key <= '9') {
+    selectHotbarSlot(parseInt(key));
+  }
+
   if (key === 'v') {
     isThirdPerson = !isThirdPerson;
     if (!isThirdPerson) {
@@ -77,6 +85,12 @@ document.addEventListener('keyup', (e) => {
   }
 });
 
+// The mouse wheel steps through the hotbar
+document.addEventListener('wheel', (e) => {
+  if (!document.pointerLockElement || e.deltaY === 0) return;
+  cycleHotbarSlot(Math.sign(e.deltaY));
+});
+
 document.addEventListener('mousemove', (e) => {
   if (!document.pointerLockElement) return;
   
@@ -96,6 +110,20 @@ document.addEventListener('mousemove', (e) => {
 
 // Add these mouse event listeners after your existing event listeners
 document.addEventListener('mousedown', (e) => {
+  // With a block selected the mouse edits the world instead of shooting
+  if (getSelectedBlock() !== null) {
+    // The first click only grabs the pointer
+    if (!document.pointerLockElement) return;
+
+    if (e.button === 0) {
+      startBreaking();
+    } else if (e.button === 2) {
+      document.oncontextmenu = function(e) { return false; };
+      placeSelectedBlock(getPlayerBox());
+    }
+    return;
+  }
+
   // Left click while aiming (button 0)
   if (e.button === 0 && isAiming && canShoot) {
     shoot();
@@ -112,12 +140,25 @@ document.addEventListener('mousedown', (e) => {
 });
 
 document.addEventListener('mouseup', (e) => {
+  if (e.button === 0) {
+    stopBreaking();
+  }
+
   // Right click released
   if (e.button === 2) {
     isAiming = false;
   }
 });
 
+// The player's bounding box, from feet to head
+function getPlayerBox(): THREE.Box3 {
+  const halfWidth = PLAYER_WIDTH / 2;
+  return new THREE.Box3(
+    new THREE.Vector3(player.position.x - halfWidth, player.position.y - playerHeight, player.position.z - halfWidth),
+    new THREE.Vector3(player.position.x + halfWidth, player.position.y, player.position.z + halfWidth)
+  );
+}
+
 // Add shooting function
 function shoot() {
   // Show muzzle flash
@@ -255,45 +296,23 @@ export function updateCamera() {
   if (keyState['a']) { movement.sub(right); isMoving = true; }
   if (keyState['d']) { movement.add(right); isMoving = true; }
   
-  // Only normalize and apply if actually moving
+  // Only normalize if actually moving
   if (isMoving) {
     movement.normalize().multiplyScalar(moveSpeed);
-    player.position.add(movement);
   }
 
-  // Gravity & terrain collision
+  // Gravity, then the whole step is swept against the blocks around the player
   _velocityY += GRAVITY * 0.1;
-  player.position.y += _velocityY * 0.1; // Use _velocityY, not velocityY
-
-  // Use a try/catch to handle potential errors with terrain height calculation
-  try {
-    // Use getActualTerrainHeight instead of getTerrainHeightAt for more accurate collision
-    const groundY = getActualTerrainHeight(player.position.x, player.position.z);
-    const playerGroundLevel = groundY + playerHeight;
-    
-    // Add a sanity check to prevent extreme values
-    if (isFinite(playerGroundLevel) && Math.abs(playerGroundLevel) < 100) {
-      if (player.position.y <= playerGroundLevel) {
-        player.position.y = playerGroundLevel;
-        _velocityY = 0;
-        _onGround = true;
-      } else {
-        _onGround = false;
-      }
-    } else {
-      console.warn('Invalid ground height detected:', playerGroundLevel);
-    }
-  } catch (error) {
-    console.error('Error calculating ground height:', error);
-    // Use a fallback terrain height to prevent falling forever
-    const fallbackGroundHeight = getTerrainHeightAt(player.position.x, player.position.z);
-    if (player.position.y <= fallbackGroundHeight + playerHeight) {
-      player.position.y = fallbackGroundHeight + playerHeight;
-      _velocityY = 0;
-      _onGround = true;
-    }
+  movement.y = _velocityY * 0.1; // Use _velocityY, not velocityY
+  const collision = movePlayer(player.position, movement, _onGround);
+  _onGround = collision.onGround;
+  if (collision.onGround || collision.hitCeiling) {
+    _velocityY = 0;
   }
 
+  // Stop at the world's wall or come out on the other side, depending on its border
+  constrainToWorld(player.position);
+
   // Jump
   if (keyState[' '] && _onGround) {
     console.log('Jump!');
@@ -340,6 +359,11 @@ export function updateCamera() {
     }
   }
 
+  // Find the block under the crosshair - in third person the ray starts behind the player
+  camera.getWorldPosition(_rayOrigin);
+  camera.getWorldDirection(_rayDirection);
+  updateBlockTarget(_rayOrigin, _rayDirection, BLOCK_REACH + (isThirdPerson ? orbitDistance : 0), deltaTime);
+
   // Update the walking animation
   updateWalkAnimation(deltaTime);
 
@@ -0,0 +1,152 @@
+// Player collision against the voxel world
+// The player is an axis-aligned box swept through the solid blocks one axis at a time - vertical
+// first, then x and z - so running into a wall only stops the movement into it and the rest slides
+// along it. Walking into a ledge no higher than STEP_HEIGHT on the ground steps up onto it.
+// Blocks are centred on integer coordinates: block n spans n - 0.5 to n + 0.5 on every axis.
+import * as THREE from 'three';
+import { playerHeight } from './player';
+import { isSolidAt } from '../world/chunkmanager';
+import { MAX_HEIGHT } from '../world/terrain';
+
+// Width of the player's box on x and z
+export const PLAYER_WIDTH = 0.6;
+
+// Highest ledge the player walks up without jumping - one block, with room for rounding
+const STEP_HEIGHT = 1.01;
+
+// Slack for positions that land exactly on a block face
+const EPSILON = 1e-6;
+
+export interface PlayerMoveResult {
+  onGround: boolean; // Standing on a block after the move
+  hitCeiling: boolean; // Moving up was stopped by a block overhead
+}
+
+// The player's box: min and max corner, feet at min.y
+const _min = new THREE.Vector3();
+const _max = new THREE.Vector3();
+
+function setBodyBox(position: THREE.Vector3): void {
+  const halfWidth = PLAYER_WIDTH / 2;
+  _min.set(position.x - halfWidth, position.y - playerHeight, position.z - halfWidth);
+  _max.set(position.x + halfWidth, position.y, position.z + halfWidth);
+}
+
+// First and last block along an axis that a span of the box overlaps - touching doesn't count
+function firstBlock(low: number): number {
+  return Math.floor(low + 0.5 + EPSILON);
+}
+
+function lastBlock(high: number): number {
+  return Math.ceil(high + 0.5 - EPSILON) - 1;
+}
+
+// Whether any solid block fills the layer at index along axis, across the box's other two axes
+function isLayerSolid(axis: number, index: number): boolean {
+  const u = (axis + 1) % 3;
+  const v = (axis + 2) % 3;
+  const cell = [0, 0, 0];
+  cell[axis] = index;
+  for (let a = firstBlock(_min.getComponent(u)); a <= lastBlock(_max.getComponent(u)); a++) {
+    for (let b = firstBlock(_min.getComponent(v)); b <= lastBlock(_max.getComponent(v)); b++) {
+      cell[u] = a;
+      cell[v] = b;
+      if (isSolidAt(cell[0]!, cell[1]!, cell[2]!)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Moves the box along one axis until it meets a solid block, layer by layer so it can't skip
+ * through thin walls
+ *
+ * @returns How far it actually moved
+ */
+function sweepAxis(axis: number, distance: number): number {
+  if (distance === 0) return 0;
+
+  let moved = distance;
+  if (distance > 0) {
+    const front = _max.getComponent(axis);
+    for (let layer = Math.ceil(front + 0.5 - EPSILON); layer - 0.5 < front + distance; layer++) {
+      if (isLayerSolid(axis, layer)) {
+        moved = Math.max(0, layer - 0.5 - front);
+        break;
+      }
+    }
+  } else {
+    const front = _min.getComponent(axis);
+    for (let layer = Math.floor(front - 0.5 + EPSILON); layer + 0.5 > front + distance; layer--) {
+      if (isLayerSolid(axis, layer)) {
+        moved = Math.min(0, layer + 0.5 - front);
+        break;
+      }
+    }
+  }
+
+  _min.setComponent(axis, _min.getComponent(axis) + moved);
+  _max.setComponent(axis, _max.getComponent(axis) + moved);
+  return moved;
+}
+
+// Whether the box overlaps any solid block
+function isBodyStuck(): boolean {
+  for (let y = firstBlock(_min.y); y <= lastBlock(_max.y); y++) {
+    if (isLayerSolid(1, y)) return true;
+  }
+  return false;
+}
+
+// Moves the box sideways, returning the horizontal distance covered
+function sweepHorizontal(dx: number, dz: number): number {
+  const movedX = sweepAxis(0, dx);
+  const movedZ = sweepAxis(2, dz);
+  return Math.hypot(movedX, movedZ);
+}
+
+/**
+ * Moves the player by movement, stopping at solid blocks: it lands on the ground, bumps its head
+ * on ceilings, slides along walls and steps up one-block ledges while on the ground.
+ *
+ * @param position The top of the player's body, like player.position - updated in place
+ * @param onGround Whether the player stood on the ground before the move, which allows stepping up
+ */
+export function movePlayer(position: THREE.Vector3, movement: THREE.Vector3, onGround: boolean): PlayerMoveResult {
+  setBodyBox(position);
+
+  // Inside blocks - spawned before its chunk loaded, or the ground was edited around it - the player
+  // is lifted a layer at a time until it is free
+  while (isBodyStuck() && _min.y < MAX_HEIGHT) {
+    const lift = firstBlock(_min.y) + 0.5 - _min.y;
+    _min.y += lift;
+    _max.y += lift;
+  }
+
+  const movedY = sweepAxis(1, movement.y);
+  const landed = movement.y < 0 && movedY > movement.y;
+  const hitCeiling = movement.y > 0 && movedY < movement.y;
+
+  // Try walking straight, then walking with a step up, and keep whichever gets further
+  const startMin = _min.clone();
+  const startMax = _max.clone();
+  const walked = sweepHorizontal(movement.x, movement.z);
+  const wanted = Math.hypot(movement.x, movement.z);
+  if ((onGround || landed) && walked < wanted - EPSILON) {
+    const walkedMin = _min.clone();
+    const walkedMax = _max.clone();
+    _min.copy(startMin);
+    _max.copy(startMax);
+
+    const raised = sweepAxis(1, STEP_HEIGHT);
+    const stepped = sweepHorizontal(movement.x, movement.z);
+    sweepAxis(1, -raised);
+    if (stepped <= walked + EPSILON) {
+      _min.copy(walkedMin);
+      _max.copy(walkedMax);
+    }
+  }
+
+  position.set((_min.x + _max.x) / 2, _max.y, (_min.z + _max.z) / 2);
+  return { onGround: landed, hitCeiling };
+}
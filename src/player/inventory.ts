@@ -0,0 +1,62 @@
+// The player's inventory
+// How many of each block the player carries. Breaking a block adds its drops, placing one takes
+// it away. Saves store the counts by block name, so they survive block IDs being renumbered.
+import { getBlockByName, getBlockDefinition, getBlocks, type BlockType } from '../world/blocks';
+
+// What a new world starts with of every placeable block
+const STARTING_STACK = 64;
+
+const counts = new Map<BlockType, number>();
+
+export function getInventoryCount(block: BlockType): number {
+  return counts.get(block) ?? 0;
+}
+
+export function addToInventory(block: BlockType, count: number): void {
+  counts.set(block, getInventoryCount(block) + count);
+}
+
+/**
+ * Takes one of a block out of the inventory. Returns false if there was none.
+ */
+export function takeFromInventory(block: BlockType): boolean {
+  const count = getInventoryCount(block);
+  if (count <= 0) return false;
+  counts.set(block, count - 1);
+  return true;
+}
+
+/**
+ * Gives the player a starting stack of every registered block
+ */
+export function resetInventory(): void {
+  counts.clear();
+  for (const block of getBlocks()) {
+    addToInventory(block.id, STARTING_STACK);
+  }
+}
+
+/**
+ * The inventory as saved: counts by block name, empty stacks left out
+ */
+export function getInventoryState(): Record<string, number> {
+  const state: Record<string, number> = {};
+  for (const [block, count] of counts) {
+    const definition = getBlockDefinition(block);
+    if (definition && count > 0) state[definition.name] = count;
+  }
+  return state;
+}
+
+/**
+ * Restores a saved inventory - blocks that are no longer registered are dropped
+ */
+export function setInventoryState(state: Record<string, number>): void {
+  counts.clear();
+  for (const [name, count] of Object.entries(state)) {
+    const block = getBlockByName(name);
+    if (block) addToInventory(block.id, count);
+  }
+}
+
+resetInventory();
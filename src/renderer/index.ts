@@ -1,11 +1,15 @@
-import { initRenderer, scene, camera } from './renderer';
+import { initRenderer, scene, camera, updateSky } from './renderer';
 import { player, playerCharacter } from '../player/player';
 import { updateCamera } from '../player/camera';
 import { initInput } from '../input/inputhandler';
-import { initHUD, updateHUD } from '../ui/hud';
-import { initChunkWorker, prerenderArea, processChunkQueue, updateChunks, initializeTownHalls } from '../world/chunkmanager';
+import { initHUD, showStartupError, updateHUD } from '../ui/hud';
+import { initChunkWorker, prerenderArea, processChunkQueue, updateChunks, initializeTownHalls, setLodLevels, type LodLevel } from '../world/chunkmanager';
 import { updateVillagers } from '../world/npc-manager';
-import { setFlatTerrainMode } from '../world/terrain';
+import { updateWater } from '../world/water';
+import { advanceWorldTime } from '../world/world-time';
+import { parseSeed, randomSeed } from '../world/random';
+import { getWorldConfig, setWorldConfig, WORLD_BORDERS, type WorldBorder, type WorldConfig } from '../world/world-config';
+import { applyPlayerState, initWorldSave, loadWorld, setSaveSeed, startAutosave } from '../save/world-save';
 
 let frameCount = 0;
 const renderer = initRenderer();
@@ -45,6 +49,13 @@ function animate() {
   
   processChunkQueue(10); // Adjust number for perf
 
+  // Flowing water - edited chunks are remeshed by the next processChunkQueue
+  updateWater(deltaTime);
+
+  // Day/night cycle
+  advanceWorldTime(deltaTime);
+  updateSky();
+
   // Villager update
   const villagerStart = performance.now();
   updateVillagers(deltaTime);
@@ -85,15 +96,89 @@ function animate() {
 // Initialize all systems
 console.log('🚀 Initializing voxel engine...');
 
+// World size and border of a new world from the URL - values that don't make a valid world are
+// ignored with a warning, keeping the defaults
+function parseWorldParams(params: URLSearchParams): Partial<WorldConfig> {
+  const config: Partial<WorldConfig> = {};
+
+  const sizeParam = params.get('size');
+  if (sizeParam !== null) {
+    const size = Number(sizeParam);
+    if (Number.isInteger(size) && size >= 2 && size % 2 === 0) {
+      config.sizeChunks = size;
+    } else {
+      console.warn(`🧱 Ignoring ?size=${sizeParam} - the world size must be an even number of chunks`);
+    }
+  }
+
+  const borderParam = params.get('border');
+  if (borderParam !== null) {
+    if ((WORLD_BORDERS as readonly string[]).includes(borderParam)) {
+      config.border = borderParam as WorldBorder;
+    } else {
+      console.warn(`🧱 Ignoring ?border=${borderParam} - pick one of ${WORLD_BORDERS.join(', ')}`);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Reads `?lod=<distance>,<distance>,...` - the distance in chunks inside which the LOD tiles of
+ * step 2, 4, 8, ... split into finer terrain, one distance per level. `?lod=` with no distances
+ * turns the far terrain off. Returns null to keep the default levels.
+ */
+function parseLodParam(params: URLSearchParams): LodLevel[] | null {
+  const lodParam = params.get('lod');
+  if (lodParam === null) return null;
+
+  const distances = lodParam === '' ? [] : lodParam.split(',').map(Number);
+  const valid = distances.every((distance, index) =>
+    Number.isInteger(distance) && distance > 0 && (index === 0 || distance >= distances[index - 1]!));
+  if (!valid) {
+    console.warn(`🏔️ Ignoring ?lod=${lodParam} - list growing distances in chunks, one per LOD level`);
+    return null;
+  }
+  return distances.map((minDistance, index) => ({ step: 2 ** (index + 1), minDistance }));
+}
+
 // Main initialization function
 async function initGame() {
+  // `?world=name` picks the save slot. A saved world keeps its seed, size and border, a new one
+  // takes `?seed=...` from the URL or a fresh random seed, and `?size=<chunks>` and
+  // `?border=wall|wrap|infinite` if given.
+  const params = new URLSearchParams(window.location.search);
+  initWorldSave(params.get('world') ?? 'default');
+
+  console.log('💾 Loading saved world...');
+  const savedWorld = await loadWorld();
+  const seedParam = params.get('seed');
+  const seed = savedWorld ? savedWorld.seed : seedParam !== null ? parseSeed(seedParam) : randomSeed();
+  setSaveSeed(seed);
+  console.log(`🌱 World seed: ${seed}`);
+
+  if (savedWorld?.world) {
+    setWorldConfig(savedWorld.world);
+  } else if (!savedWorld) {
+    setWorldConfig(parseWorldParams(params));
+  }
+  const worldConfig = getWorldConfig();
+  console.log(`🧱 World is ${worldConfig.sizeChunks}x${worldConfig.sizeChunks} chunks with a ${worldConfig.border} border`);
+
+  const lodLevels = parseLodParam(params);
+  if (lodLevels) {
+    setLodLevels(lodLevels);
+    console.log(`🏔️ LOD levels split at ${lodLevels.map(level => level.minDistance).join(', ') || 'no'} chunks`);
+  }
+
+  // Put the player back where they left off before the first chunks are loaded around them
+  if (savedWorld) {
+    applyPlayerState(savedWorld);
+  }
+
   // Initialize the chunk worker first so it's ready when we start generating chunks
   console.log('🧠 Initializing chunk worker...');
-  await initChunkWorker();
-  
-  // Set flat terrain mode AFTER worker initialization is complete
-  console.log('🏞️ Setting flat terrain mode...');
-  setFlatTerrainMode(true);
+  await initChunkWorker(seed, { flatTerrain: true });
   
   initHUD();
   initInput();
@@ -121,10 +206,17 @@ async function initGame() {
   // Remove loading message when done
   document.body.removeChild(loadingMessage);
   
+  // Keep the world saved from now on
+  startAutosave();
+
   // Start the game loop
   console.log('🎮 Starting game loop');
   animate();
 }
 
-// Start the initialization process
-initGame();
\ No newline at end of file
+// Start the initialization process - a save that can't be loaded or a world that can't be set up
+// is shown on screen rather than leaving a blank page
+initGame().catch(error => {
+  console.error('❌ Failed to start the game:', error);
+  showStartupError(error instanceof Error ? error.message : String(error));
+});
\ No newline at end of file
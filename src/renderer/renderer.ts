@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { getSunElevation, getTimeOfDay } from '../world/world-time';
 
 const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
 const renderer = new THREE.WebGLRenderer({ canvas });
@@ -6,16 +7,89 @@ renderer.setSize(window.innerWidth, window.innerHeight);
 
 const scene = new THREE.Scene();
 scene.background = new THREE.Color(0x87ceeb);
+scene.fog = new THREE.Fog(0x87ceeb, 60, 100);
 
 const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
 
-scene.add(new THREE.AmbientLight(0x666666));
+const ambientLight = new THREE.AmbientLight(0x666666);
+scene.add(ambientLight);
+// Sun by day, moon by night
 const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
 directionalLight.position.set(5, 10, 7);
 scene.add(directionalLight);
 
+// Sky, fog, ambient and sun/moon light colours through the day, by time of day (0 = midnight)
+interface SkyKeyframe {
+  time: number;
+  sky: number;
+  ambient: number;
+  light: number;
+  intensity: number;
+}
+
+const SKY_KEYFRAMES: SkyKeyframe[] = [
+  { time: 0, sky: 0x0b1026, ambient: 0x202838, light: 0x8090c0, intensity: 0.3 },
+  { time: 0.22, sky: 0x1c2340, ambient: 0x282c40, light: 0x8090c0, intensity: 0.25 },
+  { time: 0.25, sky: 0xd08868, ambient: 0x4a4048, light: 0xff9a70, intensity: 0.1 }, // Sunrise - sun takes over from the moon
+  { time: 0.3, sky: 0xf0b080, ambient: 0x5a5050, light: 0xffc090, intensity: 0.6 },
+  { time: 0.38, sky: 0x87ceeb, ambient: 0x666666, light: 0xffffff, intensity: 1 },
+  { time: 0.62, sky: 0x87ceeb, ambient: 0x666666, light: 0xffffff, intensity: 1 },
+  { time: 0.7, sky: 0xe89060, ambient: 0x5a4c4c, light: 0xff9060, intensity: 0.6 },
+  { time: 0.75, sky: 0x9a5a60, ambient: 0x403a48, light: 0xff8060, intensity: 0.1 }, // Sunset - moon takes over
+  { time: 0.8, sky: 0x1c2340, ambient: 0x282c40, light: 0x8090c0, intensity: 0.25 },
+  { time: 1, sky: 0x0b1026, ambient: 0x202838, light: 0x8090c0, intensity: 0.3 }
+];
+
+// Fraction of the fog distance where fog starts
+const FOG_START = 0.6;
+const MIN_CAMERA_FAR = 1000;
+
+const _skyA = new THREE.Color();
+const _skyB = new THREE.Color();
+
 export function initRenderer() {
   return renderer;
 }
 
+/**
+ * Moves the sun and moon and sets sky, fog and light colours for the current time of day
+ */
+export function updateSky(): void {
+  const time = getTimeOfDay();
+
+  let next = SKY_KEYFRAMES.findIndex(keyframe => keyframe.time > time);
+  if (next <= 0) next = SKY_KEYFRAMES.length - 1;
+  const from = SKY_KEYFRAMES[next - 1]!;
+  const to = SKY_KEYFRAMES[next]!;
+  const t = (time - from.time) / (to.time - from.time);
+
+  lerpColor(scene.background as THREE.Color, from.sky, to.sky, t);
+  (scene.fog as THREE.Fog).color.copy(scene.background as THREE.Color);
+  lerpColor(ambientLight.color, from.ambient, to.ambient, t);
+  lerpColor(directionalLight.color, from.light, to.light, t);
+  directionalLight.intensity = from.intensity + (to.intensity - from.intensity) * t;
+
+  // The sun circles east to west; below the horizon the light comes from the moon opposite it
+  const angle = (time - 0.25) * Math.PI * 2;
+  const moon = getSunElevation() < 0 ? -1 : 1;
+  directionalLight.position.set(Math.cos(angle) * moon * 100, Math.sin(angle) * moon * 100, 30);
+}
+
+/**
+ * Sets how far the camera sees: the far plane, and the fog that fully hides the world at that
+ * distance - keep it at the edge of the loaded terrain
+ */
+export function setViewDistance(distance: number): void {
+  camera.far = Math.max(MIN_CAMERA_FAR, distance * 1.5);
+  camera.updateProjectionMatrix();
+
+  const fog = scene.fog as THREE.Fog;
+  fog.far = distance;
+  fog.near = distance * FOG_START;
+}
+
+function lerpColor(target: THREE.Color, from: number, to: number, t: number): void {
+  target.copy(_skyA.setHex(from)).lerp(_skyB.setHex(to), t);
+}
+
 export { scene, camera };
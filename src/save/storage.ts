@@ -0,0 +1,107 @@
+// Storage backends for world saves
+// Under Electron (nodeIntegration is on) files go to ~/.voxel-game/saves/<world>/,
+// in a plain browser they go to IndexedDB under the same relative paths.
+
+export interface SaveStorage {
+  name: string;
+  read(path: string): Promise<Uint8Array | null>;
+  write(path: string, data: Uint8Array): Promise<void>;
+  // Synchronous write for the unload handler, where async work never finishes. May be unsupported.
+  writeSync?(path: string, data: Uint8Array): void;
+}
+
+const IDB_NAME = 'voxel-saves';
+const IDB_STORE = 'files';
+
+/**
+ * Picks the filesystem under Electron, IndexedDB otherwise
+ */
+export function createSaveStorage(worldName: string): SaveStorage {
+  const nodeRequire = (window as any).require;
+  if (typeof nodeRequire === 'function') {
+    return createFileStorage(nodeRequire, worldName);
+  }
+  return createIndexedDBStorage(worldName);
+}
+
+function createFileStorage(nodeRequire: (module: string) => any, worldName: string): SaveStorage {
+  const fs = nodeRequire('fs');
+  const path = nodeRequire('path');
+  const os = nodeRequire('os');
+  const root = path.join(os.homedir(), '.voxel-game', 'saves', worldName);
+
+  const resolve = (file: string): string => {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    return fullPath;
+  };
+
+  return {
+    name: `file:${root}`,
+
+    async read(file) {
+      try {
+        const buffer: Uint8Array = await fs.promises.readFile(path.join(root, file));
+        return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async write(file, data) {
+      // Write to a temp file first so a crash mid-save never leaves a half written file
+      const fullPath = resolve(file);
+      await fs.promises.writeFile(`${fullPath}.tmp`, data);
+      await fs.promises.rename(`${fullPath}.tmp`, fullPath);
+    },
+
+    writeSync(file, data) {
+      const fullPath = resolve(file);
+      fs.writeFileSync(`${fullPath}.tmp`, data);
+      fs.renameSync(`${fullPath}.tmp`, fullPath);
+    }
+  };
+}
+
+function createIndexedDBStorage(worldName: string): SaveStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  const key = (file: string) => `${worldName}/${file}`;
+
+  return {
+    name: `indexeddb:${worldName}`,
+
+    async read(file) {
+      const value = await run<ArrayBuffer | undefined>('readonly', store => store.get(key(file)));
+      return value ? new Uint8Array(value) : null;
+    },
+
+    async write(file, data) {
+      // Store a copy of exactly the bytes in the view
+      const copy = data.slice().buffer;
+      await run('readwrite', store => store.put(copy, key(file)));
+    }
+  };
+}
@@ -0,0 +1,382 @@
+import * as THREE from 'three';
+import { scene, camera } from '../renderer/renderer';
+import { player } from '../player/player';
+import { getInventoryState, setInventoryState } from '../player/inventory';
+import { updateToolLabel } from '../player/block-interaction';
+import { USE_FLAT_TERRAIN } from '../world/terrain';
+import { getWorldConfig, wrapBlockCoord, type WorldConfig } from '../world/world-config';
+import { getAllChunkEdits, setChunkEdits } from '../world/voxel-store';
+import { getTownSaveStates, setSavedTownStates, type TownSaveState } from '../world/npc-manager';
+import { getDay, getTimeOfDay, setWorldTime } from '../world/world-time';
+import { getBlockByName, getBlocks, type BlockType } from '../world/blocks';
+import type { HarvestableTree } from '../world/special-objects';
+import { createSaveStorage, type SaveStorage } from './storage';
+import { GENERATOR_VERSION } from '../world/worker-protocol';
+
+// Bump when the save layout changes. Older saves are migrated in readWorldState, newer ones refuse to load.
+// v2 records the generator version in world.json and in every region header.
+export const SAVE_FORMAT_VERSION = 2;
+
+// Chunks per region file side - a region file holds the edits of REGION_SIZE x REGION_SIZE chunks
+export const REGION_SIZE = 32;
+
+const WORLD_STATE_FILE = 'world.json';
+const REGION_MAGIC = 0x56585247; // 'VXRG'
+const AUTOSAVE_INTERVAL_MS = 60_000;
+
+// Global state file: everything except block edits
+export interface WorldState {
+  version: number;
+  // GENERATOR_VERSION of the terrain the block edits are diffs against
+  generatorVersion: number;
+  seed: number;
+  flatTerrain: boolean;
+  // World size and border - missing in saves from before they were configurable
+  world?: WorldConfig;
+  savedAt: string;
+  player: {
+    x: number;
+    y: number;
+    z: number;
+    yaw: number;
+    pitch: number;
+  };
+  // Blocks the player carries, by block name - missing in saves from before the inventory
+  inventory?: Record<string, number>;
+  // World clock - missing in saves from before the day/night cycle
+  time?: {
+    day: number;
+    timeOfDay: number;
+  };
+  towns: TownSaveState[];
+  // Wood left in trees that have been harvested, keyed by world position "x,y,z"
+  trees: Record<string, number>;
+  // Region files written with this save, as "rx,rz"
+  regions: string[];
+  // Name of each registered block by the ID region files store it as, so edits survive the
+  // registry being renumbered - missing in saves from before, which used today's IDs
+  blockNames?: Record<string, string>;
+}
+
+let storage: SaveStorage | null = null;
+let worldSeed = 0;
+let autosaveTimer: number | null = null;
+
+// Wood left in harvested trees, including trees in chunks that are currently unloaded
+const treeWood = new Map<string, number>();
+
+function treeKey(x: number, y: number, z: number): string {
+  return `${Math.round(x)},${Math.round(y)},${Math.round(z)}`;
+}
+
+function regionFile(rx: number, rz: number): string {
+  return `regions/r.${rx}.${rz}.bin`;
+}
+
+/**
+ * Selects the save slot. Must be called before loading or saving.
+ */
+export function initWorldSave(worldName: string): void {
+  storage = createSaveStorage(worldName);
+  console.log(`💾 World saves go to ${storage.name}`);
+}
+
+/**
+ * Sets the seed written into the next save - for new worlds, loaded worlds keep their own
+ */
+export function setSaveSeed(seed: number): void {
+  worldSeed = seed;
+}
+
+/**
+ * Loads the saved world, if there is one. Block edits, tree wood and town state are
+ * handed to their systems right away; the returned state carries the seed and player.
+ */
+export async function loadWorld(): Promise<WorldState | null> {
+  if (!storage) throw new Error('World save not initialized');
+
+  const stateBytes = await storage.read(WORLD_STATE_FILE);
+  if (!stateBytes) return null;
+
+  const state = readWorldState(new TextDecoder().decode(stateBytes));
+  worldSeed = state.seed;
+  const blockIds = getBlockIdRemap(state.blockNames ?? {});
+
+  for (const region of state.regions) {
+    const [rx, rz] = region.split(',').map(Number) as [number, number];
+    const bytes = await storage.read(regionFile(rx, rz));
+    if (!bytes) {
+      console.warn(`💾 Region ${region} listed in the save is missing, its edits are lost`);
+      continue;
+    }
+    for (const { cx, cz, edits } of decodeRegion(bytes)) {
+      setChunkEdits(cx, cz, remapEdits(edits, blockIds));
+    }
+  }
+
+  treeWood.clear();
+  for (const [key, wood] of Object.entries(state.trees)) {
+    treeWood.set(key, wood);
+  }
+
+  setSavedTownStates(state.towns);
+
+  if (state.time) {
+    setWorldTime(state.time.day, state.time.timeOfDay);
+  }
+
+  console.log(`💾 Loaded world saved at ${state.savedAt} (${state.regions.length} regions)`);
+  return state;
+}
+
+/**
+ * Moves the player to where the save left them
+ */
+export function applyPlayerState(state: WorldState): void {
+  player.position.set(state.player.x, state.player.y, state.player.z);
+  player.rotation.y = state.player.yaw;
+  camera.rotation.x = state.player.pitch;
+  if (state.inventory) {
+    setInventoryState(state.inventory);
+    updateToolLabel();
+  }
+}
+
+/**
+ * Restores the wood left in a freshly created tree, if it was harvested before
+ */
+export function restoreTreeState(tree: HarvestableTree, worldX: number, worldY: number, worldZ: number): void {
+  const wood = treeWood.get(treeKey(worldX, worldY, worldZ));
+  if (wood === undefined || wood === tree.woodRemaining) return;
+
+  tree.woodRemaining = wood;
+  tree.updateAppearance();
+  tree.updateWoodLabel();
+}
+
+/**
+ * Writes the whole world: one region file per REGION_SIZE² chunks with edits, plus the global state
+ */
+export async function saveWorld(): Promise<void> {
+  if (!storage) throw new Error('World save not initialized');
+
+  const files = collectSaveFiles();
+  for (const [file, data] of files) {
+    await storage.write(file, data);
+  }
+  console.log(`💾 World saved (${files.length - 1} regions)`);
+}
+
+/**
+ * Same as saveWorld but blocking, for the window unload handler where async writes never finish.
+ * Only the filesystem supports it - in the browser the last autosave has to do.
+ */
+export function saveWorldSync(): void {
+  if (!storage?.writeSync) return;
+
+  for (const [file, data] of collectSaveFiles()) {
+    storage.writeSync(file, data);
+  }
+}
+
+// Builds every file of the save. The global state file comes last so a save interrupted
+// half way still points at complete region files.
+function collectSaveFiles(): Array<[string, Uint8Array]> {
+  const files: Array<[string, Uint8Array]> = [];
+
+  // Group chunk edits by region
+  const regions = new Map<string, Array<{ cx: number, cz: number, edits: Map<number, BlockType> }>>();
+  for (const chunk of getAllChunkEdits()) {
+    const key = `${Math.floor(chunk.cx / REGION_SIZE)},${Math.floor(chunk.cz / REGION_SIZE)}`;
+    let region = regions.get(key);
+    if (!region) {
+      region = [];
+      regions.set(key, region);
+    }
+    region.push(chunk);
+  }
+
+  for (const [key, chunks] of regions) {
+    const [rx, rz] = key.split(',').map(Number) as [number, number];
+    files.push([regionFile(rx, rz), encodeRegion(chunks)]);
+  }
+
+  // Trees in loaded chunks carry the latest wood values
+  const treePosition = new THREE.Vector3();
+  scene.traverse((object) => {
+    if (object.userData?.type !== 'harvestableTree') return;
+    const tree = object as HarvestableTree;
+    tree.getWorldPosition(treePosition);
+    // Trees past the edge of a wrapping world are the ones at the opposite edge
+    const key = treeKey(wrapBlockCoord(Math.round(treePosition.x)), treePosition.y, wrapBlockCoord(Math.round(treePosition.z)));
+    if (tree.woodRemaining < tree.maxWood) {
+      treeWood.set(key, tree.woodRemaining);
+    } else {
+      treeWood.delete(key);
+    }
+  });
+
+  const state: WorldState = {
+    version: SAVE_FORMAT_VERSION,
+    generatorVersion: GENERATOR_VERSION,
+    seed: worldSeed,
+    flatTerrain: USE_FLAT_TERRAIN,
+    world: { ...getWorldConfig() },
+    savedAt: new Date().toISOString(),
+    player: {
+      x: player.position.x,
+      y: player.position.y,
+      z: player.position.z,
+      yaw: player.rotation.y,
+      pitch: camera.rotation.x
+    },
+    inventory: getInventoryState(),
+    time: {
+      day: getDay(),
+      timeOfDay: getTimeOfDay()
+    },
+    towns: getTownSaveStates(),
+    trees: Object.fromEntries(treeWood),
+    regions: [...regions.keys()],
+    blockNames: Object.fromEntries(getBlocks().map(block => [block.id, block.name]))
+  };
+
+  files.push([WORLD_STATE_FILE, new TextEncoder().encode(JSON.stringify(state))]);
+  return files;
+}
+
+/**
+ * Saves periodically and when the window closes
+ */
+export function startAutosave(intervalMs: number = AUTOSAVE_INTERVAL_MS): void {
+  if (autosaveTimer !== null) return;
+
+  autosaveTimer = window.setInterval(() => {
+    saveWorld().catch(error => console.error('Autosave failed:', error));
+  }, intervalMs);
+
+  window.addEventListener('beforeunload', () => {
+    try {
+      saveWorldSync();
+    } catch (error) {
+      console.error('Saving on exit failed:', error);
+    }
+  });
+}
+
+// Maps the block IDs of a save onto the registry's current ones by name. IDs not in the table -
+// air, flowing water and anything from saves without a table - stay as they are; blocks that are
+// no longer registered map to -1.
+function getBlockIdRemap(blockNames: Record<string, string>): Map<number, number> {
+  const remap = new Map<number, number>();
+  for (const [id, name] of Object.entries(blockNames)) {
+    const block = getBlockByName(name);
+    if (!block) console.warn(`💾 Block "${name}" is no longer registered - its edits are dropped`);
+    remap.set(Number(id), block?.id ?? -1);
+  }
+  return remap;
+}
+
+function remapEdits(edits: Map<number, BlockType>, blockIds: Map<number, number>): Map<number, BlockType> {
+  const remapped = new Map<number, BlockType>();
+  for (const [index, block] of edits) {
+    const id = blockIds.get(block) ?? block;
+    if (id >= 0) remapped.set(index, id);
+  }
+  return remapped;
+}
+
+// Parses and validates the global state file, migrating older versions
+function readWorldState(json: string): WorldState {
+  const state = JSON.parse(json) as WorldState;
+
+  if (typeof state.version !== 'number') {
+    throw new Error('World save is corrupt: missing format version');
+  }
+  if (state.version > SAVE_FORMAT_VERSION) {
+    throw new Error(`World save format v${state.version} is newer than this game supports (v${SAVE_FORMAT_VERSION})`);
+  }
+
+  // Version 1 didn't record its generator. Every v1 save predates the current one, so it gets a
+  // version no generator has had and is refused below like any other mismatch.
+  if (state.version < 2) {
+    state.generatorVersion = 0;
+  }
+
+  // Edits are diffs against the terrain the save's generator made - replayed onto different
+  // terrain they would float in the air or end up buried, so the world can't be loaded
+  if (state.generatorVersion !== GENERATOR_VERSION) {
+    throw new Error(`World save was made with generator v${state.generatorVersion || 'unknown'} but this game runs v${GENERATOR_VERSION} - its block edits don't fit the terrain any more. Pick another save slot with ?world=<name>`);
+  }
+
+  return state;
+}
+
+/**
+ * Region file layout (little endian):
+ *   u32 magic 'VXRG', u16 format version, u16 generator version, u16 chunk count
+ *   per chunk: i32 cx, i32 cz, u32 edit count, then per edit: u32 voxel index, u8 block
+ * Block IDs are named by blockNames in world.json.
+ */
+function encodeRegion(chunks: Array<{ cx: number, cz: number, edits: Map<number, BlockType> }>): Uint8Array {
+  let size = 10;
+  for (const chunk of chunks) size += 12 + chunk.edits.size * 5;
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  view.setUint32(offset, REGION_MAGIC, true); offset += 4;
+  view.setUint16(offset, SAVE_FORMAT_VERSION, true); offset += 2;
+  view.setUint16(offset, GENERATOR_VERSION, true); offset += 2;
+  view.setUint16(offset, chunks.length, true); offset += 2;
+
+  for (const { cx, cz, edits } of chunks) {
+    view.setInt32(offset, cx, true); offset += 4;
+    view.setInt32(offset, cz, true); offset += 4;
+    view.setUint32(offset, edits.size, true); offset += 4;
+    for (const [index, block] of edits) {
+      view.setUint32(offset, index, true); offset += 4;
+      view.setUint8(offset, block); offset += 1;
+    }
+  }
+
+  return bytes;
+}
+
+function decodeRegion(bytes: Uint8Array): Array<{ cx: number, cz: number, edits: Map<number, BlockType> }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  if (view.getUint32(offset, true) !== REGION_MAGIC) {
+    throw new Error('Region file is corrupt: bad magic number');
+  }
+  offset += 4;
+  const version = view.getUint16(offset, true); offset += 2;
+  if (version > SAVE_FORMAT_VERSION) {
+    throw new Error(`Region format v${version} is newer than this game supports (v${SAVE_FORMAT_VERSION})`);
+  }
+  // v1 regions have no generator version and come from an older generator
+  const generatorVersion = version >= 2 ? view.getUint16(offset, true) : 0;
+  if (version >= 2) offset += 2;
+  if (generatorVersion !== GENERATOR_VERSION) {
+    throw new Error(`Region file was made with generator v${generatorVersion || 'unknown'} but this game runs v${GENERATOR_VERSION}`);
+  }
+  const chunkCount = view.getUint16(offset, true); offset += 2;
+
+  const chunks: Array<{ cx: number, cz: number, edits: Map<number, BlockType> }> = [];
+  for (let i = 0; i < chunkCount; i++) {
+    const cx = view.getInt32(offset, true); offset += 4;
+    const cz = view.getInt32(offset, true); offset += 4;
+    const editCount = view.getUint32(offset, true); offset += 4;
+    const edits = new Map<number, BlockType>();
+    for (let j = 0; j < editCount; j++) {
+      const index = view.getUint32(offset, true); offset += 4;
+      edits.set(index, view.getUint8(offset) as BlockType); offset += 1;
+    }
+    chunks.push({ cx, cz, edits });
+  }
+
+  return chunks;
+}
+
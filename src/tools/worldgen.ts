@@ -0,0 +1,205 @@
+// Headless world generation
+// Runs the terrain generator from terrain.ts on its own - no browser, Electron or WebGL - over a
+// range of chunks and writes out what it made, so seeds can be compared and generator
+// regressions caught on any machine:
+//   heightmap.png  Highest solid block per column, black at y = 0 to white at MAX_HEIGHT
+//   biomes.png     Biome of each column in its map colour, hill shaded, seas drawn blue
+//   report.json    Block counts, trees and structures, max height and cave volume
+//   chunks/        With --raw: c.<cx>.<cz>.bin per chunk, its block IDs laid out by voxelIndex
+//
+// The generator is configured exactly as the game configures it (generation-config.ts), town halls
+// and villages included, so the output matches the chunks the game generates for the same world.
+//
+// Usage: bun run worldgen --seed <number or text> [--from=cx,cz] [--to=cx,cz] [--size=chunks] [--out dir] [--flat] [--raw]
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  CHUNK_SIZE,
+  MAX_HEIGHT,
+  generateChunkData,
+  getBlendedBiomeAt,
+  voxelIndex,
+  type ChunkData
+} from '../world/terrain';
+import { BlockType, getBlockName, isWaterBlock } from '../world/blocks';
+import { parseSeed } from '../world/random';
+import { unpackSections } from '../world/sections';
+import { GENERATOR_VERSION } from '../world/worker-protocol';
+import { applyGenerationConfig, createGenerationConfig } from '../world/generation-config';
+import { getWorldConfig, setWorldConfig } from '../world/world-config';
+import { encodePng } from './png';
+
+const SEA_COLOR = 0x3070c0;
+
+interface WorldgenReport {
+  generatorVersion: number;
+  seed: number;
+  flatTerrain: boolean;
+  // World size in chunks, which decides where the town halls stand
+  worldSize: number;
+  chunks: { from: [number, number], to: [number, number], count: number };
+  // Voxels per block type, flowing water counted as water
+  blocks: Record<string, number>;
+  objects: { tree: number };
+  // Structures per template, counted in the chunk holding their lowest corner
+  structures: Record<string, number>;
+  maxHeight: number;
+  // Air below the highest solid block of each column
+  caveVolume: number;
+  // Columns per biome
+  biomes: Record<string, number>;
+}
+
+function parseChunkCoords(value: string, option: string): [number, number] {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 2 || !parts.every(Number.isInteger)) {
+    throw new Error(`--${option} takes chunk coordinates as cx,cz - got "${value}"`);
+  }
+  return [parts[0]!, parts[1]!];
+}
+
+// Shades a 0xRRGGBB colour into an RGB pixel
+function setPixel(rgb: Uint8Array, pixel: number, color: number, shade: number): void {
+  rgb[pixel * 3] = Math.min(255, ((color >> 16) & 0xff) * shade);
+  rgb[pixel * 3 + 1] = Math.min(255, ((color >> 8) & 0xff) * shade);
+  rgb[pixel * 3 + 2] = Math.min(255, (color & 0xff) * shade);
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string' },
+      from: { type: 'string', default: '-2,-2' },
+      to: { type: 'string', default: '2,2' },
+      size: { type: 'string' },
+      out: { type: 'string', default: 'worldgen-out' },
+      flat: { type: 'boolean', default: false },
+      raw: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.seed === undefined) {
+    throw new Error('Usage: bun run worldgen --seed <number or text> [--from=cx,cz] [--to=cx,cz] [--size=chunks] [--out dir] [--flat] [--raw]');
+  }
+
+  const seed = parseSeed(values.seed);
+  const [fromX, fromZ] = parseChunkCoords(values.from, 'from');
+  const [toX, toZ] = parseChunkCoords(values.to, 'to');
+  const minX = Math.min(fromX, toX);
+  const maxX = Math.max(fromX, toX);
+  const minZ = Math.min(fromZ, toZ);
+  const maxZ = Math.max(fromZ, toZ);
+
+  // Same world size as the game's ?size=, so the town halls land where the game puts them
+  if (values.size !== undefined) setWorldConfig({ sizeChunks: Number(values.size) });
+  applyGenerationConfig(createGenerationConfig(seed, { flatTerrain: values.flat }));
+
+  mkdirSync(values.out, { recursive: true });
+  if (values.raw) mkdirSync(join(values.out, 'chunks'), { recursive: true });
+
+  // One pixel per column
+  const width = (maxX - minX + 1) * CHUNK_SIZE;
+  const height = (maxZ - minZ + 1) * CHUNK_SIZE;
+  const heights = new Int16Array(width * height);
+  const columnColors = new Uint32Array(width * height);
+  const seaColumns = new Uint8Array(width * height);
+
+  const report: WorldgenReport = {
+    generatorVersion: GENERATOR_VERSION,
+    seed,
+    flatTerrain: values.flat,
+    worldSize: getWorldConfig().sizeChunks,
+    chunks: { from: [minX, minZ], to: [maxX, maxZ], count: 0 },
+    blocks: {},
+    objects: { tree: 0 },
+    structures: {},
+    maxHeight: -1,
+    caveVolume: 0,
+    biomes: {}
+  };
+  const blockCounts = new Map<number, number>();
+
+  const started = performance.now();
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cz = minZ; cz <= maxZ; cz++) {
+      const chunkData: ChunkData = generateChunkData(cx, cz);
+      const { heightmap } = chunkData;
+      const blocks = unpackSections(chunkData.blocks);
+      report.chunks.count++;
+
+      for (const block of blocks) {
+        blockCounts.set(block, (blockCounts.get(block) ?? 0) + 1);
+      }
+      for (const object of chunkData.specialObjects) {
+        report.objects[object.type]++;
+      }
+      for (const placement of chunkData.structures) {
+        report.structures[placement.template] = (report.structures[placement.template] ?? 0) + 1;
+      }
+
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        for (let x = 0; x < CHUNK_SIZE; x++) {
+          const surface = heightmap[z * CHUNK_SIZE + x]!;
+          report.maxHeight = Math.max(report.maxHeight, surface);
+          for (let y = 0; y < surface; y++) {
+            if (blocks[voxelIndex(x, y, z)] === BlockType.Air) report.caveVolume++;
+          }
+
+          const worldX = cx * CHUNK_SIZE + x;
+          const worldZ = cz * CHUNK_SIZE + z;
+          const biome = getBlendedBiomeAt(worldX, worldZ);
+          report.biomes[biome.id] = (report.biomes[biome.id] ?? 0) + 1;
+
+          const pixel = (worldZ - minZ * CHUNK_SIZE) * width + (worldX - minX * CHUNK_SIZE);
+          heights[pixel] = surface;
+          columnColors[pixel] = biome.mapColor;
+          seaColumns[pixel] = surface + 1 < MAX_HEIGHT && isWaterBlock(blocks[voxelIndex(x, surface + 1, z)] as BlockType) ? 1 : 0;
+        }
+      }
+
+      if (values.raw) {
+        writeFileSync(join(values.out, 'chunks', `c.${cx}.${cz}.bin`), blocks);
+      }
+    }
+  }
+  const elapsed = performance.now() - started;
+
+  for (const block of [...blockCounts.keys()].sort((a, b) => a - b)) {
+    const name = getBlockName(block);
+    report.blocks[name] = (report.blocks[name] ?? 0) + blockCounts.get(block)!;
+  }
+
+  const heightmapRgb = new Uint8Array(width * height * 3);
+  const biomeRgb = new Uint8Array(width * height * 3);
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const pixel = py * width + px;
+      const level = Math.max(0, heights[pixel]!) / (MAX_HEIGHT - 1);
+      setPixel(heightmapRgb, pixel, 0xffffff, level);
+
+      // Light from the north west: slopes facing it brighter, facing away darker
+      const west = heights[py * width + Math.max(0, px - 1)]!;
+      const north = heights[Math.max(0, py - 1) * width + px]!;
+      const shade = Math.min(1.3, Math.max(0.6, 1 + (heights[pixel]! - (west + north) / 2) * 0.08));
+      if (seaColumns[pixel]) {
+        setPixel(biomeRgb, pixel, SEA_COLOR, 1);
+      } else {
+        setPixel(biomeRgb, pixel, columnColors[pixel]!, shade);
+      }
+    }
+  }
+
+  writeFileSync(join(values.out, 'heightmap.png'), encodePng(width, height, heightmapRgb));
+  writeFileSync(join(values.out, 'biomes.png'), encodePng(width, height, biomeRgb));
+  writeFileSync(join(values.out, 'report.json'), JSON.stringify(report, null, 2) + '\n');
+
+  console.log(`🗺️ Generated ${report.chunks.count} chunks for seed ${seed} in ${(elapsed / 1000).toFixed(1)}s - written to ${values.out}/`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
-import { townHallPositions, WORLD_MIN, WORLD_MAX, WORLD_SIZE } from '../world/chunkmanager';
+import { getGenerationConfig } from '../world/chunkmanager';
+import { getWorldBlockBounds, wrapBlockCoord } from '../world/world-config';
 
 let slider: HTMLInputElement;
 let coordsDiv: HTMLDivElement;
@@ -37,7 +38,7 @@ function initMiniMap() {
   miniMap.appendChild(playerMarker);
 
   // Create town hall markers
-  townHallPositions.forEach((pos: {x: number, z: number}, index: number) => {
+  getGenerationConfig().townHalls.forEach((pos, index) => {
     const marker = document.createElement('div');
     marker.className = 'town-hall-marker';
     marker.title = `Town Hall ${index + 1}`;
@@ -57,13 +58,16 @@ function worldToMiniMapCoords(worldX: number, worldZ: number): [number, number]
   // Calculate the scale of the mini-map
   const miniMapSize = 150; // Size in pixels
   
-  // Normalize coordinates to 0-1 range based on world size
-  const normalizedX = (worldX - WORLD_MIN) / WORLD_SIZE;
-  const normalizedZ = (worldZ - WORLD_MIN) / WORLD_SIZE;
+  // Normalize coordinates to 0-1 range based on world size, in blocks
+  // Past the edge of a wrapping world, the place at the opposite edge
+  const { min, max } = getWorldBlockBounds();
+  const worldSize = max - min + 1;
+  const normalizedX = (wrapBlockCoord(worldX) - min) / worldSize;
+  const normalizedZ = (wrapBlockCoord(worldZ) - min) / worldSize;
   
-  // Convert to pixel coordinates
-  const pixelX = normalizedX * miniMapSize;
-  const pixelY = normalizedZ * miniMapSize;
+  // Convert to pixel coordinates - an infinite world keeps the player on the edge once they leave the map
+  const pixelX = Math.min(Math.max(normalizedX, 0), 1) * miniMapSize;
+  const pixelY = Math.min(Math.max(normalizedZ, 0), 1) * miniMapSize;
   
   return [pixelX, pixelY];
 }
@@ -86,6 +90,31 @@ export function updateHUD(position: THREE.Vector3) {
   updateMiniMapPlayerPosition(position);
 }
 
+// Shows which hotbar tool (gun or block type) is selected
+export function setSelectedToolLabel(name: string) {
+  const toolDiv = document.getElementById('selected-tool');
+  if (toolDiv) {
+    toolDiv.textContent = `Selected: ${name} (0 = gun, 1-9 or mouse wheel = blocks)`;
+  }
+}
+
+// Covers the screen with an error that stops the game from starting
+export function showStartupError(message: string) {
+  const errorDiv = document.createElement('div');
+  errorDiv.style.position = 'absolute';
+  errorDiv.style.top = '50%';
+  errorDiv.style.left = '50%';
+  errorDiv.style.transform = 'translate(-50%, -50%)';
+  errorDiv.style.maxWidth = '80%';
+  errorDiv.style.padding = '16px';
+  errorDiv.style.background = 'rgba(0, 0, 0, 0.8)';
+  errorDiv.style.color = '#ff8080';
+  errorDiv.style.fontSize = '18px';
+  errorDiv.style.fontFamily = 'Arial, sans-serif';
+  errorDiv.textContent = `The world couldn't be started: ${message}`;
+  document.body.appendChild(errorDiv);
+}
+
 function updateMiniMapPlayerPosition(position: THREE.Vector3) {
   if (!playerMarker) return;
   
@@ -0,0 +1,154 @@
+// Biome registry
+// Every biome is plain data: where it sits in climate space, how it shapes the terrain,
+// which blocks cover it and what spawns on it. The generator only reads these definitions,
+// so a new biome is just another registerBiome() call.
+import { BlockType } from './blocks';
+
+// An object that can spawn on a biome's surface, with its chance per column
+export interface BiomeObjectSpawn {
+  type: 'tree';
+  chance: number;
+}
+
+// A structure template that can be built in a biome, with its chance per chunk (see structure-placement.ts)
+export interface BiomeStructureSpawn {
+  template: string;
+  chance: number;
+}
+
+export interface BiomeDefinition {
+  id: string;
+  name: string;
+  // Colour on overview maps (the worldgen CLI's biomes.png)
+  mapColor: number;
+
+  // Climate the biome is centred on, both in [-1, 1]
+  temperature: number;
+  humidity: number;
+
+  // Height shaping, applied to the shared base height: height * heightScale + heightOffset
+  heightScale: number;
+  heightOffset: number;
+  // Extra height added where the mountain noise rises above 0.1 (0 = no mountains)
+  mountainAmplitude: number;
+  // How strongly 3D noise carves overhangs and arches into the surface (0 = plain heightmap)
+  overhangStrength: number;
+
+  // Blocks
+  surfaceBlock: BlockType;
+  subsurfaceBlock: BlockType;
+  subsurfaceDepth: number; // Layers of subsurfaceBlock under the surface, rock below
+  snowLine?: number; // Surface turns to snow above this height
+
+  objects: BiomeObjectSpawn[];
+  structures: BiomeStructureSpawn[];
+}
+
+// How far apart (in climate space) neighbouring biomes blend their terrain
+export const BIOME_BLEND_RADIUS = 0.2;
+
+const biomes: BiomeDefinition[] = [];
+
+/**
+ * Adds a biome to the registry. Ids must be unique.
+ */
+export function registerBiome(biome: BiomeDefinition): void {
+  if (biomes.some(existing => existing.id === biome.id)) {
+    throw new Error(`Biome "${biome.id}" is already registered`);
+  }
+  biomes.push(biome);
+}
+
+/**
+ * Replaces the whole registry, e.g. with the biomes the main thread sent a chunk worker
+ */
+export function setBiomes(definitions: readonly BiomeDefinition[]): void {
+  biomes.length = 0;
+  for (const biome of definitions) {
+    registerBiome(biome);
+  }
+}
+
+/**
+ * Returns every registered biome, in registration order
+ */
+export function getBiomes(): readonly BiomeDefinition[] {
+  return biomes;
+}
+
+/**
+ * Looks up a biome by id
+ */
+export function getBiome(id: string): BiomeDefinition | undefined {
+  return biomes.find(biome => biome.id === id);
+}
+
+// Default biomes
+registerBiome({
+  id: 'plains',
+  name: 'Plains',
+  mapColor: 0x8fbf5a,
+  temperature: 0.1,
+  humidity: -0.1,
+  heightScale: 1,
+  heightOffset: 0,
+  mountainAmplitude: 0,
+  overhangStrength: 0.3,
+  surfaceBlock: BlockType.Grass,
+  subsurfaceBlock: BlockType.Dirt,
+  subsurfaceDepth: 3,
+  objects: [],
+  structures: [{ template: 'house', chance: 0.2 }]
+});
+
+registerBiome({
+  id: 'desert',
+  name: 'Desert',
+  mapColor: 0xe0cc7a,
+  temperature: 0.6,
+  humidity: -0.6,
+  heightScale: 0.5,
+  heightOffset: 40,
+  mountainAmplitude: 0,
+  overhangStrength: 0.2,
+  surfaceBlock: BlockType.Sand,
+  subsurfaceBlock: BlockType.Sand,
+  subsurfaceDepth: 3,
+  objects: [],
+  structures: []
+});
+
+registerBiome({
+  id: 'forest',
+  name: 'Forest',
+  mapColor: 0x2f7a32,
+  temperature: 0.1,
+  humidity: 0.5,
+  heightScale: 1,
+  heightOffset: 0,
+  mountainAmplitude: 0,
+  overhangStrength: 0.4,
+  surfaceBlock: BlockType.Grass,
+  subsurfaceBlock: BlockType.Dirt,
+  subsurfaceDepth: 3,
+  objects: [{ type: 'tree', chance: 0.04 }],
+  structures: []
+});
+
+registerBiome({
+  id: 'mountains',
+  name: 'Mountains',
+  mapColor: 0x8a8a8a,
+  temperature: -0.5,
+  humidity: 0.1,
+  heightScale: 1,
+  heightOffset: 0,
+  mountainAmplitude: 300,
+  overhangStrength: 1.2,
+  surfaceBlock: BlockType.Rock,
+  subsurfaceBlock: BlockType.Dirt,
+  subsurfaceDepth: 3,
+  snowLine: 120,
+  objects: [],
+  structures: []
+});
@@ -0,0 +1,344 @@
+// Block registry
+// Every block is plain data: the byte it is stored as in chunk voxel data, how each of its faces
+// looks, how it behaves and what breaking it gives the player. Meshing, lighting, collision,
+// editing and the hotbar only read these definitions, so a new block is just another
+// registerBlock() call. The registry travels to the chunk workers with the generation config.
+
+// IDs of the built-in blocks (one byte per voxel)
+export enum BlockType {
+  Air = 0,
+  Grass = 1,
+  Dirt = 2,
+  Sand = 3,
+  Rock = 4,
+  Snow = 5,
+  Water = 6, // Water source - flowing water is stored by level, see waterBlockForLevel
+  Lamp = 7,
+  // Building blocks, used by the structure templates
+  Planks = 8,
+  Cobblestone = 9,
+  RoofTile = 10,
+  Path = 11 // Trodden earth of village paths
+}
+
+// Water levels: a source is MAX_WATER_LEVEL, flowing water loses a level per block it spreads sideways
+export const MAX_WATER_LEVEL = 8;
+
+// Flowing water of level n (1 to MAX_WATER_LEVEL - 1) is stored as the byte FLOWING_WATER_BASE + n
+const FLOWING_WATER_BASE = 16;
+
+// Whether a block is water, source or flowing
+export function isWaterBlock(block: BlockType): boolean {
+  return block === BlockType.Water ||
+    (block > FLOWING_WATER_BASE && block < FLOWING_WATER_BASE + MAX_WATER_LEVEL);
+}
+
+// Water level of a block: MAX_WATER_LEVEL for a source, 1 to MAX_WATER_LEVEL - 1 for flowing water, 0 otherwise
+export function getWaterLevel(block: BlockType): number {
+  if (block === BlockType.Water) return MAX_WATER_LEVEL;
+  return isWaterBlock(block) ? block - FLOWING_WATER_BASE : 0;
+}
+
+// Block for a water level - a source at MAX_WATER_LEVEL, air at 0
+export function waterBlockForLevel(level: number): BlockType {
+  if (level <= 0) return BlockType.Air;
+  if (level >= MAX_WATER_LEVEL) return BlockType.Water;
+  return (FLOWING_WATER_BASE + level) as BlockType;
+}
+
+export interface BlockFaceAppearance {
+  color: number; // 0xRRGGBB (sRGB)
+  emissive?: number; // Glow that doesn't depend on the lighting, 0xRRGGBB
+}
+
+export type BlockFace = 'top' | 'bottom' | 'side';
+
+export interface BlockDefinition {
+  id: BlockType;
+  // Unique - structure templates, saves and the hotbar refer to blocks by name
+  name: string;
+  appearance: Record<BlockFace, BlockFaceAppearance>;
+
+  // Fills its voxel: collides, stops light and hides the faces of its neighbours
+  solid: boolean;
+  // Drawn see-through, and doesn't hide the faces of the blocks behind it
+  transparent: boolean;
+  // Flows and is drawn as a surface rather than a cube (only water, see water.ts)
+  liquid: boolean;
+  // Block light it gives off, 0 to 15
+  lightEmission?: number;
+
+  // Seconds of digging to break it, negative if it can't be broken
+  hardness: number;
+  // What the player gets for breaking it
+  drops: Array<{ block: BlockType, count: number }>;
+}
+
+// Bytes a block ID can take
+const ID_COUNT = 256;
+
+const blocks: BlockDefinition[] = [];
+// Lookups by ID for the per-voxel hot paths (meshing, lighting), rebuilt on every registration
+const definitionsById: Array<BlockDefinition | undefined> = new Array(ID_COUNT);
+const solidById = new Uint8Array(ID_COUNT);
+const transparentById = new Uint8Array(ID_COUNT);
+const emissionById = new Uint8Array(ID_COUNT);
+// Chunk material index of each block's top, bottom and side faces, at id * 3 + face; -1 for none
+const faceMaterialById = new Int16Array(ID_COUNT * 3).fill(-1);
+const FACE_SLOTS: Record<BlockFace, number> = { top: 0, bottom: 1, side: 2 };
+
+// One chunk material per distinct face appearance of each solid block, in registration order
+export interface BlockMaterial {
+  block: BlockType;
+  appearance: BlockFaceAppearance;
+  transparent: boolean;
+}
+const blockMaterials: BlockMaterial[] = [];
+
+function isReservedId(id: number): boolean {
+  return id === BlockType.Air || (id !== BlockType.Water && isWaterBlock(id));
+}
+
+/**
+ * Adds a block to the registry. IDs and names must be unique, and air and the flowing water
+ * levels can't be taken.
+ */
+export function registerBlock(block: BlockDefinition): void {
+  if (!Number.isInteger(block.id) || block.id < 0 || block.id >= ID_COUNT || isReservedId(block.id)) {
+    throw new Error(`Block "${block.name}" can't use ID ${block.id}`);
+  }
+  if (definitionsById[block.id]) {
+    throw new Error(`Block ID ${block.id} is already registered to "${definitionsById[block.id]!.name}"`);
+  }
+  if (getBlockByName(block.name)) {
+    throw new Error(`Block "${block.name}" is already registered`);
+  }
+
+  blocks.push(block);
+  definitionsById[block.id] = block;
+  solidById[block.id] = block.solid ? 1 : 0;
+  transparentById[block.id] = block.transparent ? 1 : 0;
+  emissionById[block.id] = block.lightEmission ?? 0;
+
+  // Liquids are drawn with a water mesh of their own, not with the solid materials
+  if (block.liquid) return;
+  const seen: BlockFaceAppearance[] = [];
+  for (const face of ['top', 'bottom', 'side'] as const) {
+    const appearance = block.appearance[face];
+    let index = seen.findIndex(other => other.color === appearance.color && other.emissive === appearance.emissive);
+    if (index < 0) {
+      index = seen.length;
+      seen.push(appearance);
+    }
+    faceMaterialById[block.id * 3 + FACE_SLOTS[face]] = blockMaterials.length + index;
+  }
+  for (const appearance of seen) {
+    blockMaterials.push({ block: block.id, appearance, transparent: block.transparent });
+  }
+}
+
+/**
+ * Replaces the whole registry, e.g. with the blocks the main thread sent a chunk worker
+ */
+export function setBlocks(definitions: readonly BlockDefinition[]): void {
+  blocks.length = 0;
+  blockMaterials.length = 0;
+  definitionsById.fill(undefined);
+  solidById.fill(0);
+  transparentById.fill(0);
+  emissionById.fill(0);
+  faceMaterialById.fill(-1);
+  for (const block of definitions) {
+    registerBlock(block);
+  }
+}
+
+/**
+ * Returns every registered block, in registration order
+ */
+export function getBlocks(): readonly BlockDefinition[] {
+  return blocks;
+}
+
+/**
+ * Looks up a block by ID - flowing water gets the water definition, air has none
+ */
+export function getBlockDefinition(block: BlockType): BlockDefinition | undefined {
+  return definitionsById[isWaterBlock(block) ? BlockType.Water : block];
+}
+
+/**
+ * Looks up a block by name
+ */
+export function getBlockByName(name: string): BlockDefinition | undefined {
+  return blocks.find(block => block.name === name);
+}
+
+// Name of a block for labels and reports
+export function getBlockName(block: BlockType): string {
+  if (block === BlockType.Air) return 'Air';
+  return getBlockDefinition(block)?.name ?? `Unknown${block}`;
+}
+
+/**
+ * Materials every chunk draws its solid blocks with, indexed by chunk material index
+ */
+export function getBlockMaterials(): readonly BlockMaterial[] {
+  return blockMaterials;
+}
+
+// Get the chunk material index of a block's face on the given axis (0 = x, 1 = y, 2 = z) and
+// side, -1 for blocks that aren't drawn with the solid materials
+export function getFaceMaterialIndex(block: BlockType, axis: number, sign: number): number {
+  const slot = axis !== 1 ? FACE_SLOTS.side : sign > 0 ? FACE_SLOTS.top : FACE_SLOTS.bottom;
+  return faceMaterialById[block * 3 + slot]!;
+}
+
+// Get the base colour of a block as 0xRRGGBB (sRGB) - its top, as seen on the far terrain
+export function getBlockColor(block: BlockType): number {
+  return getBlockDefinition(block)?.appearance.top.color ?? 0xFF00FF;
+}
+
+// Whether a block fills its voxel (and hides the faces of its neighbours)
+export function isSolidBlock(block: BlockType): boolean {
+  return solidById[block] === 1;
+}
+
+// Whether the faces behind a block show through it
+export function isTransparentBlock(block: BlockType): boolean {
+  return transparentById[block] === 1;
+}
+
+// Block light a block gives off, 0 to 15
+export function getLightEmission(block: BlockType): number {
+  return emissionById[block]!;
+}
+
+// The same appearance on every face
+function allFaces(color: number, emissive?: number): Record<BlockFace, BlockFaceAppearance> {
+  const appearance = { color, emissive };
+  return { top: appearance, bottom: appearance, side: appearance };
+}
+
+// Default blocks
+registerBlock({
+  id: BlockType.Grass,
+  name: 'Grass',
+  appearance: allFaces(0x3d9140),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 0.6,
+  drops: [{ block: BlockType.Dirt, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Dirt,
+  name: 'Dirt',
+  appearance: allFaces(0x8B4513),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 0.5,
+  drops: [{ block: BlockType.Dirt, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Sand,
+  name: 'Sand',
+  appearance: allFaces(0xDEB887),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 0.5,
+  drops: [{ block: BlockType.Sand, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Rock,
+  name: 'Rock',
+  appearance: allFaces(0x808080),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 1.5,
+  drops: [{ block: BlockType.Cobblestone, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Snow,
+  name: 'Snow',
+  appearance: allFaces(0xFFFFFF),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 0.2,
+  drops: [{ block: BlockType.Snow, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Water,
+  name: 'Water',
+  appearance: allFaces(0x0099FF),
+  solid: false,
+  transparent: true,
+  liquid: true,
+  hardness: -1,
+  drops: []
+});
+
+registerBlock({
+  id: BlockType.Lamp,
+  name: 'Lamp',
+  appearance: allFaces(0xFFE9A0, 0xFFD070),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  lightEmission: 14,
+  hardness: 0.3,
+  drops: [{ block: BlockType.Lamp, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Planks,
+  name: 'Planks',
+  appearance: allFaces(0xB08850),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 1,
+  drops: [{ block: BlockType.Planks, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Cobblestone,
+  name: 'Cobblestone',
+  appearance: allFaces(0x6E6E6E),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 2,
+  drops: [{ block: BlockType.Cobblestone, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.RoofTile,
+  name: 'RoofTile',
+  appearance: allFaces(0xA03828),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 1,
+  drops: [{ block: BlockType.RoofTile, count: 1 }]
+});
+
+registerBlock({
+  id: BlockType.Path,
+  name: 'Path',
+  appearance: allFaces(0x9C7A4E),
+  solid: true,
+  transparent: false,
+  liquid: false,
+  hardness: 0.6,
+  drops: [{ block: BlockType.Dirt, count: 1 }]
+});
@@ -0,0 +1,176 @@
+// Worm caves and ravines
+// Each tunnel belongs to the chunk it starts in and its whole path is derived from that chunk's
+// seed. A chunk replays every tunnel that could reach it and carves the parts inside its bounds,
+// so tunnels cross chunk borders seamlessly no matter which chunk is generated first. In a wrapping
+// world the chunks past an edge replay the tunnels of the chunks they stand for, so tunnels cross
+// the seam too.
+import { createRandom, hashSeed } from './random';
+import { BlockType } from './blocks';
+
+// Random stream salts (kept apart from the terrain noise salts)
+const WORM_SALT = 200;
+const RAVINE_SALT = 201;
+
+// Worm tunnels
+const WORM_CHANCE = 0.3; // Chance a chunk starts a worm
+const WORM_MIN_STEPS = 40;
+const WORM_MAX_STEPS = 100;
+const WORM_STEP = 1.5;
+const WORM_MIN_Y = 15;
+const WORM_MAX_Y = 110;
+
+// Ravines - long, narrow and tall cuts that usually break the surface
+const RAVINE_CHANCE = 0.03;
+const RAVINE_MIN_STEPS = 30;
+const RAVINE_MAX_STEPS = 70;
+const RAVINE_STEP = 2;
+
+// A tunnel can't reach further than its maximum length, so only start chunks this close matter
+const WORM_REACH_CHUNKS = Math.ceil((WORM_MAX_STEPS * WORM_STEP + 4) / 16);
+const RAVINE_REACH_CHUNKS = Math.ceil((RAVINE_MAX_STEPS * RAVINE_STEP + 4) / 16);
+
+// The chunk being carved, in world block coordinates
+interface CarveTarget {
+  blocks: Uint8Array;
+  minX: number;
+  minZ: number;
+  size: number; // Chunk width/depth
+  height: number; // Chunk height
+  index: (x: number, y: number, z: number) => number; // Chunk-local voxel index
+  wrapChunk: (c: number) => number;
+}
+
+/**
+ * Carves every worm cave and ravine that passes through a chunk
+ *
+ * @param blocks The chunk's voxels, solid blocks already filled in
+ * @param getSurfaceHeight Terrain height lookup, used to start ravines at the surface
+ * @param wrapChunk The chunk coordinate inside the world a chunk coordinate stands for
+ */
+export function carveTunnels(
+  blocks: Uint8Array,
+  cx: number,
+  cz: number,
+  chunkSize: number,
+  maxHeight: number,
+  seed: number,
+  voxelIndex: (x: number, y: number, z: number) => number,
+  getSurfaceHeight: (x: number, z: number) => number,
+  wrapChunk: (c: number) => number
+): void {
+  const target: CarveTarget = {
+    blocks,
+    minX: cx * chunkSize,
+    minZ: cz * chunkSize,
+    size: chunkSize,
+    height: maxHeight,
+    index: voxelIndex,
+    wrapChunk
+  };
+
+  for (let ox = cx - WORM_REACH_CHUNKS; ox <= cx + WORM_REACH_CHUNKS; ox++) {
+    for (let oz = cz - WORM_REACH_CHUNKS; oz <= cz + WORM_REACH_CHUNKS; oz++) {
+      carveWorm(target, ox, oz, chunkSize, seed);
+    }
+  }
+
+  for (let ox = cx - RAVINE_REACH_CHUNKS; ox <= cx + RAVINE_REACH_CHUNKS; ox++) {
+    for (let oz = cz - RAVINE_REACH_CHUNKS; oz <= cz + RAVINE_REACH_CHUNKS; oz++) {
+      carveRavine(target, ox, oz, chunkSize, seed, getSurfaceHeight);
+    }
+  }
+}
+
+// Replays the worm starting in chunk (ox, oz), if it has one
+function carveWorm(target: CarveTarget, ox: number, oz: number, chunkSize: number, seed: number): void {
+  const random = createRandom(hashSeed(seed, WORM_SALT, target.wrapChunk(ox), target.wrapChunk(oz)));
+  if (random() > WORM_CHANCE) return;
+
+  let x = (ox + random()) * chunkSize;
+  let z = (oz + random()) * chunkSize;
+  let y = WORM_MIN_Y + random() * (WORM_MAX_Y - WORM_MIN_Y);
+  let yaw = random() * Math.PI * 2;
+  let pitch = (random() - 0.5) * 0.5;
+  const steps = WORM_MIN_STEPS + Math.floor(random() * (WORM_MAX_STEPS - WORM_MIN_STEPS));
+  const baseRadius = 1.5 + random() * 1.5;
+
+  for (let step = 0; step < steps; step++) {
+    // Always draw from the stream so the path is the same whichever chunk replays it
+    const radius = baseRadius * (0.75 + random() * 0.5);
+    yaw += (random() - 0.5) * 0.5;
+    pitch = pitch * 0.85 + (random() - 0.5) * 0.3;
+
+    x += Math.cos(pitch) * Math.cos(yaw) * WORM_STEP;
+    y += Math.sin(pitch) * WORM_STEP;
+    z += Math.cos(pitch) * Math.sin(yaw) * WORM_STEP;
+
+    carveEllipsoid(target, x, y, z, radius, radius);
+  }
+}
+
+// Replays the ravine starting in chunk (ox, oz), if it has one
+function carveRavine(
+  target: CarveTarget,
+  ox: number,
+  oz: number,
+  chunkSize: number,
+  seed: number,
+  getSurfaceHeight: (x: number, z: number) => number
+): void {
+  const random = createRandom(hashSeed(seed, RAVINE_SALT, target.wrapChunk(ox), target.wrapChunk(oz)));
+  if (random() > RAVINE_CHANCE) return;
+
+  let x = (ox + random()) * chunkSize;
+  let z = (oz + random()) * chunkSize;
+  let yaw = random() * Math.PI * 2;
+  const steps = RAVINE_MIN_STEPS + Math.floor(random() * (RAVINE_MAX_STEPS - RAVINE_MIN_STEPS));
+  const width = 1.5 + random() * 1.5;
+  const depth = 12 + random() * 12;
+
+  // Centre the cut a little below the surface where it starts so it opens up to the sky
+  const y = getSurfaceHeight(Math.floor(x), Math.floor(z)) - depth * 0.5;
+
+  for (let step = 0; step < steps; step++) {
+    yaw += (random() - 0.5) * 0.2;
+    x += Math.cos(yaw) * RAVINE_STEP;
+    z += Math.sin(yaw) * RAVINE_STEP;
+
+    // Taper both ends
+    const taper = Math.sin(Math.PI * (step + 0.5) / steps);
+    carveEllipsoid(target, x, y, z, width * taper + 0.5, depth * taper + 1);
+  }
+}
+
+// Clears every voxel of the target chunk inside an ellipsoid (horizontal radius, vertical half height)
+function carveEllipsoid(target: CarveTarget, x: number, y: number, z: number, radius: number, halfHeight: number): void {
+  // Skip quickly when the ellipsoid misses the chunk
+  if (x + radius < target.minX - 0.5 || x - radius > target.minX + target.size - 0.5) return;
+  if (z + radius < target.minZ - 0.5 || z - radius > target.minZ + target.size - 0.5) return;
+
+  const minX = Math.max(0, Math.ceil(x - radius) - target.minX);
+  const maxX = Math.min(target.size - 1, Math.floor(x + radius) - target.minX);
+  const minZ = Math.max(0, Math.ceil(z - radius) - target.minZ);
+  const maxZ = Math.min(target.size - 1, Math.floor(z + radius) - target.minZ);
+  // Never carve the bottom layer of the world
+  const minY = Math.max(1, Math.ceil(y - halfHeight));
+  const maxY = Math.min(target.height - 1, Math.floor(y + halfHeight));
+
+  const radiusSq = radius * radius;
+  const halfHeightSq = halfHeight * halfHeight;
+
+  for (let ly = minY; ly <= maxY; ly++) {
+    const dy = ly - y;
+    const verticalFactor = (dy * dy) / halfHeightSq;
+    if (verticalFactor >= 1) continue;
+
+    for (let lz = minZ; lz <= maxZ; lz++) {
+      const dz = target.minZ + lz - z;
+      for (let lx = minX; lx <= maxX; lx++) {
+        const dx = target.minX + lx - x;
+        if ((dx * dx + dz * dz) / radiusSq + verticalFactor < 1) {
+          target.blocks[target.index(lx, ly, lz)] = BlockType.Air;
+        }
+      }
+    }
+  }
+}
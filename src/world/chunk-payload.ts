@@ -0,0 +1,206 @@
+// Binary chunk payload sent from the chunk workers to the main thread
+// Every part of a chunk is a typed array - block IDs, light, heightmap, objects, structures and the
+// pre-built mesh attributes - so the message can hand over the underlying ArrayBuffers as
+// transferables instead of structured-cloning them. The worker loses access to the buffers
+// once sent, which is fine: it never looks at a chunk again.
+// Only sections that hold something are sent: uniform sections travel as their fill value and
+// sections with nothing to draw have no meshes.
+import { SECTION_COUNT, type ChunkData, type SpecialObjectData } from './terrain';
+import type { ChunkMeshData, MeshData } from './mesher';
+import { getSectionVolume, type VoxelSections } from './sections';
+import type { StructurePlacement } from './structure-placement';
+import { getStructureTemplates } from './structure-templates';
+
+// Special object types by their code in the payload
+const OBJECT_TYPES: ReadonlyArray<SpecialObjectData['type']> = ['tree'];
+// Int16 values per special object: type, x, y, z
+const OBJECT_STRIDE = 4;
+// Int32 values per structure: template (by its place in getStructureTemplates), rotation, x, y, z
+const STRUCTURE_STRIDE = 5;
+// Uint32 values per draw group: start, count, materialIndex
+const GROUP_STRIDE = 3;
+
+export interface MeshPayload {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Uint8Array;
+  indices: Uint32Array;
+  groups: Uint32Array;
+}
+
+// Voxel sections, see sections.ts
+export interface SectionsPayload {
+  fill: Uint8Array;
+  // 1 for each section that has voxels of its own
+  mixed: Uint8Array;
+  // The voxels of the mixed sections, back to back
+  data: Uint8Array;
+}
+
+export interface SectionMeshPayload {
+  section: number;
+  solid: MeshPayload;
+  water: MeshPayload;
+}
+
+export interface ChunkPayload {
+  cx: number;
+  cz: number;
+  blocks: SectionsPayload;
+  light: SectionsPayload;
+  heightmap: Int16Array;
+  objects: Int16Array;
+  structures: Int32Array;
+  meshes: SectionMeshPayload[];
+}
+
+/**
+ * Packs a generated chunk for postMessage
+ *
+ * @returns The payload and the buffers to pass as its transfer list
+ */
+export function encodeChunkPayload(cx: number, cz: number, chunkData: ChunkData): { payload: ChunkPayload, transfer: ArrayBuffer[] } {
+  const objects = new Int16Array(chunkData.specialObjects.length * OBJECT_STRIDE);
+  chunkData.specialObjects.forEach((object, i) => {
+    objects.set([OBJECT_TYPES.indexOf(object.type), object.x, object.y, object.z], i * OBJECT_STRIDE);
+  });
+
+  const templateIds = getStructureTemplates().map(template => template.id);
+  const structures = new Int32Array(chunkData.structures.length * STRUCTURE_STRIDE);
+  chunkData.structures.forEach((placement, i) => {
+    const { x, y, z, rotation } = placement;
+    structures.set([templateIds.indexOf(placement.template), rotation, x, y, z], i * STRUCTURE_STRIDE);
+  });
+
+  const meshes: SectionMeshPayload[] = [];
+  chunkData.mesh.forEach((mesh, section) => {
+    if (mesh) meshes.push({ section, solid: encodeMeshPayload(mesh.solid), water: encodeMeshPayload(mesh.water) });
+  });
+
+  const payload: ChunkPayload = {
+    cx,
+    cz,
+    blocks: encodeSections(chunkData.blocks),
+    light: encodeSections(chunkData.light),
+    heightmap: chunkData.heightmap,
+    objects,
+    structures,
+    meshes
+  };
+
+  const transfer = [
+    ...getSectionsTransfer(payload.blocks),
+    ...getSectionsTransfer(payload.light),
+    payload.heightmap.buffer,
+    objects.buffer,
+    structures.buffer,
+    ...meshes.flatMap(mesh => [...getMeshTransfer(mesh.solid), ...getMeshTransfer(mesh.water)])
+  ];
+  return { payload, transfer: transfer as ArrayBuffer[] };
+}
+
+/**
+ * Unpacks a chunk payload back into chunk data. The typed arrays are used as they are, not copied.
+ */
+export function decodeChunkPayload(payload: ChunkPayload): ChunkData {
+  const specialObjects: SpecialObjectData[] = [];
+  for (let i = 0; i < payload.objects.length; i += OBJECT_STRIDE) {
+    const type = OBJECT_TYPES[payload.objects[i]!];
+    if (!type) continue;
+    specialObjects.push({ type, x: payload.objects[i + 1]!, y: payload.objects[i + 2]!, z: payload.objects[i + 3]! });
+  }
+
+  const templates = getStructureTemplates();
+  const structures: StructurePlacement[] = [];
+  for (let i = 0; i < payload.structures.length; i += STRUCTURE_STRIDE) {
+    const template = templates[payload.structures[i]!];
+    if (!template) continue;
+    structures.push({
+      template: template.id,
+      rotation: payload.structures[i + 1]!,
+      x: payload.structures[i + 2]!,
+      y: payload.structures[i + 3]!,
+      z: payload.structures[i + 4]!
+    });
+  }
+
+  const mesh: Array<ChunkMeshData | null> = new Array(SECTION_COUNT).fill(null);
+  for (const { section, solid, water } of payload.meshes) {
+    mesh[section] = { solid: decodeMeshPayload(solid), water: decodeMeshPayload(water) };
+  }
+
+  return {
+    blocks: decodeSections(payload.blocks),
+    light: decodeSections(payload.light),
+    heightmap: payload.heightmap,
+    mesh,
+    specialObjects,
+    structures
+  };
+}
+
+function encodeSections(sections: VoxelSections): SectionsPayload {
+  const mixed = new Uint8Array(SECTION_COUNT);
+  let size = 0;
+  sections.data.forEach((data, section) => {
+    if (!data) return;
+    mixed[section] = 1;
+    size += data.length;
+  });
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const section of sections.data) {
+    if (!section) continue;
+    data.set(section, offset);
+    offset += section.length;
+  }
+  return { fill: sections.fill, mixed, data };
+}
+
+// The mixed sections end up as views into the payload's one buffer
+function decodeSections(payload: SectionsPayload): VoxelSections {
+  const data: VoxelSections['data'] = [];
+  let offset = 0;
+  for (let section = 0; section < SECTION_COUNT; section++) {
+    if (!payload.mixed[section]) {
+      data.push(null);
+      continue;
+    }
+    const volume = getSectionVolume(section);
+    data.push(payload.data.subarray(offset, offset + volume));
+    offset += volume;
+  }
+  return { data, fill: payload.fill };
+}
+
+function getSectionsTransfer(payload: SectionsPayload): ArrayBuffer[] {
+  return [payload.fill.buffer, payload.mixed.buffer, payload.data.buffer] as ArrayBuffer[];
+}
+
+export function encodeMeshPayload(mesh: MeshData): MeshPayload {
+  const groups = new Uint32Array(mesh.groups.length * GROUP_STRIDE);
+  mesh.groups.forEach((group, i) => {
+    groups.set([group.start, group.count, group.materialIndex], i * GROUP_STRIDE);
+  });
+  return { positions: mesh.positions, normals: mesh.normals, colors: mesh.colors, indices: mesh.indices, groups };
+}
+
+export function decodeMeshPayload(payload: MeshPayload): MeshData {
+  const groups: MeshData['groups'] = [];
+  for (let i = 0; i < payload.groups.length; i += GROUP_STRIDE) {
+    groups.push({ start: payload.groups[i]!, count: payload.groups[i + 1]!, materialIndex: payload.groups[i + 2]! });
+  }
+  return { positions: payload.positions, normals: payload.normals, colors: payload.colors, indices: payload.indices, groups };
+}
+
+// Buffers of a mesh payload for a transfer list
+export function getMeshTransfer(payload: MeshPayload): ArrayBuffer[] {
+  return [
+    payload.positions.buffer,
+    payload.normals.buffer,
+    payload.colors.buffer,
+    payload.indices.buffer,
+    payload.groups.buffer
+  ] as ArrayBuffer[];
+}
@@ -0,0 +1,78 @@
+// Chunk Worker for offloading chunk generation from the main thread
+// This worker runs in the background to generate terrain chunks.
+// Built to public/chunk-worker.js by `bun run build` - it shares terrain.ts with the main thread
+// so the blocks we mesh always match the heights the player collides with.
+// Several of these run side by side in the worker pool (worker-pool.ts); every reply to a job
+// carries the jobId it was sent with. Messages are typed in worker-protocol.ts.
+import { generateChunkData } from './terrain';
+import { applyGenerationConfig } from './generation-config';
+import { buildLodTileMesh } from './lod-mesher';
+import { encodeChunkPayload, encodeMeshPayload, getMeshTransfer } from './chunk-payload';
+import { GENERATOR_VERSION, type GenerationConfig, type WorkerRequest, type WorkerResponse } from './worker-protocol';
+
+let worldBounds = { min: -Infinity, max: Infinity };
+
+function reply(message: WorkerResponse, transfer: ArrayBuffer[] = []): void {
+  postMessage(message, { transfer });
+}
+
+function applyConfig(config: GenerationConfig): void {
+  applyGenerationConfig(config);
+  worldBounds = config.worldBounds;
+}
+
+// Handle messages from the main thread
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+
+  switch (message.type) {
+    case 'init': {
+      const { generatorVersion, config } = message.data;
+      if (generatorVersion !== GENERATOR_VERSION) {
+        reply({
+          type: 'initFailed',
+          data: {
+            generatorVersion: GENERATOR_VERSION,
+            message: `Chunk worker runs generator version ${GENERATOR_VERSION} but the game expects ${generatorVersion} - rebuild with \`bun run build\``
+          }
+        });
+        break;
+      }
+      applyConfig(config);
+      reply({ type: 'initialized', data: { generatorVersion: GENERATOR_VERSION } });
+      break;
+    }
+
+    case 'configure':
+      applyConfig(message.data.config);
+      break;
+
+    case 'generateChunk': {
+      const { jobId } = message;
+      const { cx, cz } = message.data;
+      try {
+        if (cx < worldBounds.min || cx > worldBounds.max || cz < worldBounds.min || cz > worldBounds.max) {
+          throw new Error(`Chunk ${cx},${cz} is outside the world`);
+        }
+        // Generate chunk data - just the data, not THREE.js objects - and hand its buffers over
+        const { payload, transfer } = encodeChunkPayload(cx, cz, generateChunkData(cx, cz));
+        reply({ type: 'jobDone', jobId, data: payload }, transfer);
+      } catch (error) {
+        reply({ type: 'jobFailed', jobId, data: { message: String(error) } });
+      }
+      break;
+    }
+
+    case 'generateLod': {
+      const { jobId } = message;
+      const { tx, tz, step, edgeSteps } = message.data;
+      try {
+        const mesh = encodeMeshPayload(buildLodTileMesh(tx, tz, step, edgeSteps));
+        reply({ type: 'jobDone', jobId, data: { tx, tz, step, mesh } }, getMeshTransfer(mesh));
+      } catch (error) {
+        reply({ type: 'jobFailed', jobId, data: { message: String(error) } });
+      }
+      break;
+    }
+  }
+};
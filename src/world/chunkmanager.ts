@@ -1,259 +1,613 @@
 import * as THREE from 'three';
-import { scene, camera } from '../renderer/renderer';
-import { generateChunk, getTerrainHeightAt } from './terrain';
-import { createTreeFromData, createHouseFromData, createTownHallFromData } from './special-objects';
+import { scene, camera, setViewDistance } from '../renderer/renderer';
+import { CHUNK_SIZE, MAX_HEIGHT, createBorderLightLookup, createBorderLookup, generateChunkData, getStructureTerrain, getTerrainHeightAt, voxelIndex, type ChunkData } from './terrain';
+import { createTreeFromData } from './special-objects';
+import { buildSectionMesh, type ChunkMeshData, type MeshData } from './mesher';
+import { buildLodTileMesh, type LodEdgeSteps } from './lod-mesher';
+import { restoreTreeState } from '../save/world-save';
+import type { HarvestableTree } from './special-objects';
+import { addChunkVoxels, getBlock, getChunkVoxels, removeChunkVoxels, takeDirtySections, toBlockCoord } from './voxel-store';
+import { getSectionsByteLength, getVoxel } from './sections';
+import { stitchChunkLight } from './light-updates';
+import { decodeChunkPayload, decodeMeshPayload } from './chunk-payload';
+import { BlockType, getBlockDefinition, getBlockMaterials, isSolidBlock, type BlockFaceAppearance } from './blocks';
+import { cancelAllJobs, getDefaultPoolSize, getPendingJobCount, getWorkerCount, initWorkerPool, postToAllWorkers, prioritizeJob, reprioritizeJobs, runJob } from './worker-pool';
+import { GENERATOR_VERSION, type GenerationConfig } from './worker-protocol';
+import { getVillage } from './villages';
+import { applyGenerationConfig, createGenerationConfig } from './generation-config';
+import { acquireSharedResource, isSharedResource, releaseObjectResources } from './shared-resources';
+import { getNearestChunkCopy, isChunkInWorld, wrapChunkCoord } from './world-config';
 
-const CHUNK_SIZE = 16;
-const MAX_HEIGHT = 300;
 let renderDistance = 3;
 let lastChunkX = Infinity;
 let lastChunkZ = Infinity;
 
-// World boundaries - cap at 100x100 chunks
-export const WORLD_SIZE = 100; // World is WORLD_SIZE x WORLD_SIZE chunks
-export const WORLD_MIN = -WORLD_SIZE / 2;
-export const WORLD_MAX = WORLD_SIZE / 2;
-
-// Town hall positions - evenly spread out across the world
-export const townHallPositions = [
-  { x: WORLD_MIN + WORLD_SIZE * 0.25, z: WORLD_MIN + WORLD_SIZE * 0.25 }, // Southwest
-  { x: WORLD_MIN + WORLD_SIZE * 0.75, z: WORLD_MIN + WORLD_SIZE * 0.25 }, // Southeast
-  { x: WORLD_MIN + WORLD_SIZE * 0.25, z: WORLD_MIN + WORLD_SIZE * 0.75 }, // Northwest
-  { x: WORLD_MIN + WORLD_SIZE * 0.75, z: WORLD_MIN + WORLD_SIZE * 0.75 }  // Northeast
-];
-
-// Town hall management - separate from chunk system
+// Town hall management - the buildings are generated into the terrain (see structure-placement.ts),
+// this only tracks where they stand for the villagers. Filled in by initializeTownHalls.
 interface TownHall {
-  group: THREE.Group;
   position: { x: number, y: number, z: number };
   placed: boolean;
 }
-const townHalls: TownHall[] = townHallPositions.map((pos) => ({
-  group: new THREE.Group(),
-  position: { ...pos, y: 0 },
-  placed: false
-}));
+let townHalls: TownHall[] = [];
 
+// Chunks are keyed by their coordinates inside the world. In a wrapping world the chunks past an
+// edge are the ones at the opposite edge, moved across to wherever the player sees them from.
 const chunks = new Map<string, THREE.Group>();
 const chunkQueue: Array<() => void> = [];
 const visibleChunkKeys = new Set<string>();
+// Chunks within the load range at the last selection - queued chunks outside it are dropped
+const chunksInRange = new Set<string>();
 
-// Track if town halls have been added - using a single source of truth for town hall placement
-const townHallsPlaced = new Set<string>();
+// Far terrain is drawn as LOD tiles: a tile of step s covers s x s chunks with a single heightmap
+// mesh. Tiles are split into four tiles of half the step while the player is closer than their
+// level's minDistance (in chunks); splitting a step 2 tile gives full voxel chunks.
+export interface LodLevel {
+  step: number;
+  minDistance: number;
+}
+
+let lodLevels: LodLevel[] = [
+  { step: 2, minDistance: 6 },
+  { step: 4, minDistance: 12 },
+  { step: 8, minDistance: 24 },
+  { step: 16, minDistance: 48 }
+];
+
+const MAX_CACHED_LOD_TILES = 600;
+
+const lodTiles = new Map<string, THREE.Mesh>();
+const pendingLodRequests = new Set<string>();
+const visibleLodKeys = new Set<string>();
+// Tiles just replaced by finer terrain, kept on screen until that terrain has loaded
+const retiringLodKeys = new Set<string>();
+
+const lodMaterial = new THREE.MeshLambertMaterial({ vertexColors: true, side: THREE.DoubleSide });
 
 // Add worker communication
-let chunkWorker: Worker | null = null;
-const pendingChunkRequests = new Map<string, {
-  resolve: (chunk: THREE.Group) => void,
-  reject: (error: Error) => void
-}>();
-
-// Materials for chunk creation from worker data
-const grassMaterial = new THREE.MeshLambertMaterial({ color: 0x3d9140 });
-const dirtMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 });
-const sandMaterial = new THREE.MeshLambertMaterial({ color: 0xDEB887 });
-const rockMaterial = new THREE.MeshLambertMaterial({ color: 0x808080 });
-const snowMaterial = new THREE.MeshLambertMaterial({ color: 0xFFFFFF });
-const waterMaterial = new THREE.MeshLambertMaterial({ 
-  color: 0x0099FF, 
-  transparent: true, 
-  opacity: 0.7 
-});
-
-// Block geometry for instanced meshes
-const geometry = new THREE.BoxGeometry(1, 1, 1);
-const materials = [grassMaterial, dirtMaterial, sandMaterial, rockMaterial, snowMaterial];
+let workerPoolStarted = false;
+// What the world is generated from - shared with every worker
+let generationConfig: GenerationConfig = createGenerationConfig(0);
+// Chunks being generated by the worker pool - resolve with null if the request was cancelled
+const pendingChunkRequests = new Map<string, Promise<THREE.Group | null>>();
+
+// Where the player was and which way they looked at the last updateChunks, for load priorities
+let priorityChunkX = 0;
+let priorityChunkZ = 0;
+const viewDirection = new THREE.Vector3(0, 0, -1);
+
+// Chunks within this many chunks of the player load and stay visible whichever way the camera
+// faces, so turning around never shows empty sky
+const ALWAYS_LOADED_RADIUS = 2;
+// Turning the camera further than this since chunks were last selected selects them again
+const VIEW_UPDATE_ANGLE = Math.PI / 12;
+// Chunks along the player's path are loaded this many seconds of movement ahead
+const PREFETCH_SECONDS = 3;
+
+// The player's horizontal velocity in blocks per second, smoothed over a few frames
+const playerVelocity = new THREE.Vector2();
+const lastPlayerPosition = new THREE.Vector2();
+let lastVelocityTime = 0;
+// The chunk the prefetch aimed at when chunks were last selected
+let lastPrefetchKey = '';
+const currentViewDirection = new THREE.Vector3();
+const chunkBox = new THREE.Box3();
+
+// Materials for chunk creation from worker data, shared by every chunk (see shared-resources.ts)
+// Vertex colours carry the baked voxel light and ambient occlusion
+const TRANSPARENT_BLOCK_OPACITY = 0.7;
+
+function createBlockMaterial(appearance: BlockFaceAppearance, transparent: boolean): THREE.MeshLambertMaterial {
+  const material = new THREE.MeshLambertMaterial({ color: appearance.color, vertexColors: true });
+  if (transparent) {
+    material.transparent = true;
+    material.opacity = TRANSPARENT_BLOCK_OPACITY;
+  }
+  if (appearance.emissive !== undefined) material.emissive.setHex(appearance.emissive);
+  return material;
+}
+
+// Blocks that look the same share a material, whichever block and face they belong to
+function acquireBlockMaterial(appearance: BlockFaceAppearance, transparent: boolean): THREE.Material {
+  const key = `block-material:${appearance.color}:${appearance.emissive ?? ''}:${transparent}`;
+  return acquireSharedResource(key, () => createBlockMaterial(appearance, transparent));
+}
 
 const DEBUG = true;
 function log(...args: any[]) {
   if (DEBUG) console.log(...args);
 }
 
-// Add these constants at the top of your file
-const MAX_CACHED_CHUNKS = 100; // Adjust based on your memory constraints
-const CHUNK_UNLOAD_DISTANCE = renderDistance + 5; // Distance at which chunks get unloaded
+/**
+ * Where a chunk is in its life:
+ * - requested: queued for generation, or on its way from a worker
+ * - generated: its blocks are in the voxel store
+ * - meshed: its meshes and trees are built but not shown yet
+ * - visible: in the scene and shown
+ * - cached: in the scene but hidden, out of range - first in line for eviction
+ * - evicted: unloaded, resources released - its record is dropped
+ */
+export type ChunkState = 'requested' | 'generated' | 'meshed' | 'visible' | 'cached' | 'evicted';
+
+const CHUNK_TRANSITIONS: Record<ChunkState, readonly ChunkState[]> = {
+  requested: ['generated', 'evicted'],
+  generated: ['meshed', 'evicted'],
+  meshed: ['visible', 'cached', 'evicted'],
+  visible: ['cached', 'evicted'],
+  cached: ['visible', 'evicted'],
+  evicted: ['requested']
+};
+
+interface ChunkRecord {
+  state: ChunkState;
+  // When the chunk was last wanted on screen, for least-recently-used eviction
+  lastAccessed: number;
+  // Memory held by its voxels and meshes, measured once it's meshed
+  bytes: number;
+}
+
+const chunkRecords = new Map<string, ChunkRecord>();
 
-// Add a Map to track when chunks were last accessed
-const chunkLastAccessed = new Map<string, number>();
+// Memory loaded chunks may take up before cached ones are evicted - see setChunkMemoryBudget
+let chunkMemoryBudget = 256 * 1024 * 1024;
+// Cached chunks this many chunks beyond the render distance are kept whatever the budget,
+// so walking back and forth doesn't regenerate them
+const CACHE_KEEP_MARGIN = 2;
 
 // Add a frustum object to check what's in view
 const frustum = new THREE.Frustum();
 const projScreenMatrix = new THREE.Matrix4();
 
-// Initialize the chunk worker
-export function initChunkWorker(): Promise<void> {
-  if (chunkWorker) {
+// Initialize the chunk worker pool
+// The config drives both the workers and the main thread generator so they build the same world.
+// Rejects if the worker bundle was built from a different generator version.
+export async function initChunkWorker(seed: number, options: Partial<Omit<GenerationConfig, 'seed'>> = {}): Promise<void> {
+  if (workerPoolStarted) {
     // Already initialized
-    return Promise.resolve();
+    return;
   }
+  workerPoolStarted = true;
 
-  // Create the worker
-  chunkWorker = new Worker('chunk-worker.js');
-  
-  // Make the worker accessible globally for other modules
-  (window as any).chunkWorkerInstance = chunkWorker;
-
-  // Return a promise that resolves when the worker is initialized
-  return new Promise((resolve) => {
-    // Set up the message handling
-    if (!chunkWorker) {
-        throw new Error('Chunk worker is not initialized');
-    }
-    chunkWorker.onmessage = (e) => {
-      const { type, data } = e.data;
-      
-      switch (type) {
-        case 'initialized':
-          log('🧠 Chunk worker initialized and ready');
-          resolve(); // Resolve the promise when initialization is complete
-          break;
-          
-        case 'chunkGenerated':
-          const { cx, cz, chunkData } = data;
-          const key = chunkKey(cx, cz);
-          
-          try {
-            // Create a THREE.js group for the chunk
-            const chunk = createChunkFromWorkerData(cx, cz, chunkData);
-            
-            // Resolve the pending request
-            const request = pendingChunkRequests.get(key);
-            if (request) {
-              request.resolve(chunk);
-              pendingChunkRequests.delete(key);
-            }
-          } catch (error) {
-            console.error('Error creating chunk from worker data:', error);
-            
-            // Reject the pending request
-            const request = pendingChunkRequests.get(key);
-            if (request) {
-              request.reject(new Error(`Failed to create chunk from worker data: ${error}`));
-              pendingChunkRequests.delete(key);
-            }
-          }
-          break;
-          
-        case 'error':
-          const errorKey = chunkKey(data.cx, data.cz);
-          console.error(`Error generating chunk ${errorKey}: ${data.message}`);
-          
-          // Reject the pending request
-          const errorRequest = pendingChunkRequests.get(errorKey);
-          if (errorRequest) {
-            errorRequest.reject(new Error(data.message));
-            pendingChunkRequests.delete(errorKey);
-          }
-          break;
-      }
-    };
-    
-    // Initialize the worker with the simplex noise library
-    chunkWorker.postMessage({
-      type: 'init',
-      data: {
-        simplexNoiseUrl: 'https://cdn.jsdelivr.net/npm/simplex-noise@4.0.1/dist/esm/simplex-noise.js'
-      }
-    });
-  });
+  setViewDistance(renderDistance * CHUNK_SIZE);
+
+  // Configure the main thread generator (used for height queries and fallback generation).
+  // The world config and block registry may have changed since the defaults were taken.
+  generationConfig = createGenerationConfig(seed, options);
+  applyGenerationConfig(generationConfig);
+
+  const poolSize = getDefaultPoolSize();
+  await initWorkerPool('chunk-worker.js', poolSize, () => ({
+    type: 'init',
+    data: { generatorVersion: GENERATOR_VERSION, config: generationConfig }
+  }));
+
+  if (getWorkerCount() > 0) {
+    log(`🧠 ${getWorkerCount()} chunk workers initialized and ready`);
+  } else {
+    console.error('❌ No chunk workers could be started - generating on the main thread');
+  }
+}
+
+export function getGenerationConfig(): Readonly<GenerationConfig> {
+  return generationConfig;
+}
+
+/**
+ * Changes what the world is generated from. Every loaded chunk and LOD tile was built from the
+ * old config, so they are all thrown away and generated again (block edits are kept).
+ */
+export function setGenerationConfig(changes: Partial<GenerationConfig>): void {
+  generationConfig = { ...generationConfig, ...changes };
+  applyGenerationConfig(generationConfig);
+  postToAllWorkers({ type: 'configure', data: { config: generationConfig } });
+  invalidateChunks();
+  log('⚙️ Generation config changed - regenerating the world');
+}
+
+// Unloads every chunk and LOD tile and cancels their pending requests, so the next
+// updateChunks generates everything anew
+function invalidateChunks(): void {
+  cancelAllJobs();
+  chunkQueue.length = 0;
+
+  for (const key of [...chunks.keys()]) {
+    unloadChunk(key);
+  }
+  // Their requests went with the queue and the cancelled jobs
+  for (const [key, record] of [...chunkRecords]) {
+    if (record.state === 'requested') setChunkState(key, 'evicted');
+  }
+
+  for (const tile of lodTiles.values()) {
+    scene.remove(tile);
+    tile.geometry.dispose();
+  }
+  lodTiles.clear();
+  visibleLodKeys.clear();
+  retiringLodKeys.clear();
+
+  lastChunkX = Infinity;
+  lastChunkZ = Infinity;
+}
+
+function hasWorkers(): boolean {
+  return getWorkerCount() > 0;
+}
+
+/**
+ * Load order of a chunk (or the centre of a tile), lower first: its distance from the player
+ * in chunks, up to doubled for places behind the camera
+ */
+function getLoadPriority(cx: number, cz: number): number {
+  const dx = getNearestChunkCopy(cx, priorityChunkX) - priorityChunkX;
+  const dz = getNearestChunkCopy(cz, priorityChunkZ) - priorityChunkZ;
+  const distance = Math.hypot(dx, dz);
+  if (distance === 0) return 0;
+
+  const facing = (dx * viewDirection.x + dz * viewDirection.z) / distance;
+  return distance * (1.5 - 0.5 * facing);
+}
+
+function getLodLoadPriority(tx: number, tz: number, step: number): number {
+  return getLoadPriority((tx + 0.5) * step - 0.5, (tz + 0.5) * step - 0.5);
 }
 
 // Creates a THREE.js chunk from the worker-generated data
-function createChunkFromWorkerData(cx: number, cz: number, chunkData: any): THREE.Group {
-  const { visibleBlocks, waterBlocks, specialObjects } = chunkData;
+function createChunkFromWorkerData(cx: number, cz: number, chunkData: ChunkData): THREE.Group {
+  const { blocks, light, heightmap, mesh, specialObjects, structures } = chunkData;
   
   const chunkGroup = new THREE.Group();
   chunkGroup.position.set(cx * CHUNK_SIZE, 0, cz * CHUNK_SIZE);
-  chunkGroup.userData = { cx, cz };
-  
-  // Create instanced mesh for each material
-  const instancedMeshes = materials.map(material => 
-    new THREE.InstancedMesh(geometry, material, 5000) // Reduced from MAX_BLOCKS_PER_CHUNK for performance
-  );
-  
-  // Create water mesh
-  const waterMesh = new THREE.InstancedMesh(geometry, waterMaterial, CHUNK_SIZE * CHUNK_SIZE);
-  
-  const instanceCounts = new Array(materials.length).fill(0);
-  let waterCount = 0;
+  // Structures are part of the blocks already - they are only listed for whoever needs to find them
+  chunkGroup.userData = { cx, cz, structures };
+
+  // Keep the block data around so the world can be queried and edited later
+  const key = chunkKey(cx, cz);
+  addChunkVoxels(cx, cz, blocks, light, heightmap);
+  setChunkState(key, 'generated');
+  // Light from the loaded neighbours flows in (and out) - chunks it changes get remeshed
+  stitchChunkLight(cx, cz);
   
-  const dummy = new THREE.Object3D();
+  addBlockMeshes(chunkGroup, mesh);
   
-  // Place all visible blocks
-  for (const block of visibleBlocks) {
-    const { x, y, z, materialIndex } = block;
-    dummy.position.set(x, y, z); // local position inside chunk
-    dummy.updateMatrix();
-    if (instancedMeshes[materialIndex]) {
-        instancedMeshes[materialIndex].setMatrixAt(instanceCounts[materialIndex]++, dummy.matrix);
-    }
+  // Add special objects (trees)
+  for (const obj of specialObjects) {
+    const tree = createTreeFromData(obj.x, obj.y, obj.z);
+    restoreTreeState(tree as HarvestableTree, cx * CHUNK_SIZE + obj.x, obj.y, cz * CHUNK_SIZE + obj.z);
+    chunkGroup.add(tree);
   }
-  
-  // Place water blocks
-  for (const block of waterBlocks) {
-    const { x, y, z } = block;
-    dummy.position.set(x, y, z);
-    dummy.updateMatrix();
-    waterMesh.setMatrixAt(waterCount++, dummy.matrix);
+
+  setChunkState(key, 'meshed');
+  chunkRecords.get(key)!.bytes = measureChunkBytes(chunkGroup, cx, cz);
+  return chunkGroup;
+}
+
+// Uploads mesh data into a BufferGeometry
+function createGeometry(meshData: MeshData): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(meshData.positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(meshData.normals, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(meshData.colors, 3, true));
+  geometry.setIndex(new THREE.BufferAttribute(meshData.indices, 1));
+  for (const group of meshData.groups) {
+    geometry.addGroup(group.start, group.count, group.materialIndex);
   }
-  
-  // Add the instanced meshes to the chunk
-  instancedMeshes.forEach((mesh, i) => {
-    mesh.count = instanceCounts[i];
-    if (mesh.count > 0) {
-      mesh.instanceMatrix.needsUpdate = true;
-      chunkGroup.add(mesh);
-    }
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+// Builds the terrain and water meshes of every section of a chunk and adds them to its group
+function addBlockMeshes(chunkGroup: THREE.Group, meshes: Array<ChunkMeshData | null>): void {
+  meshes.forEach((meshData, section) => {
+    if (meshData) addSectionMeshes(chunkGroup, section, meshData);
   });
-  
-  // Add the water mesh
-  if (waterCount > 0) {
-    waterMesh.count = waterCount;
-    waterMesh.instanceMatrix.needsUpdate = true;
+}
+
+// Each section gets meshes of its own, so the renderer culls them one by one and an edit only
+// replaces the section it touched
+function addSectionMeshes(chunkGroup: THREE.Group, section: number, meshData: ChunkMeshData): void {
+  if (meshData.solid.indices.length > 0) {
+    const terrainMesh = new THREE.Mesh(createGeometry(meshData.solid), getBlockMaterials().map(material => acquireBlockMaterial(material.appearance, material.transparent)));
+    terrainMesh.userData = { blockMesh: true, section };
+    chunkGroup.add(terrainMesh);
+  }
+
+  if (meshData.water.indices.length > 0) {
+    const water = getBlockDefinition(BlockType.Water)!;
+    const waterMesh = new THREE.Mesh(createGeometry(meshData.water), acquireBlockMaterial(water.appearance.top, water.transparent));
+    waterMesh.userData = { blockMesh: true, section };
     chunkGroup.add(waterMesh);
   }
-  
-  // Add special objects (trees, houses) - but not town halls!
-  // Town halls are now handled separately and not tied to chunks
-  for (const obj of specialObjects) {
-    if (obj.type === 'tree') {
-      const tree = createTreeFromData(obj.x, obj.y, obj.z);
-      chunkGroup.add(tree);
-    } else if (obj.type === 'house') {
-      const house = createHouseFromData(obj.x, obj.y, obj.z);
-      chunkGroup.add(house);
+}
+
+/**
+ * Rebuilds the block meshes of every chunk section whose voxels changed since the last call.
+ * Only the block meshes of those sections are replaced - trees stay untouched and nothing
+ * is regenerated in the worker.
+ */
+export function rebuildDirtyChunks(): void {
+  for (const { voxels, sections } of takeDirtySections()) {
+    const chunk = chunks.get(chunkKey(voxels.cx, voxels.cz));
+    if (!chunk) continue;
+
+    // Look into the neighbour chunks so faces hidden across the border stay culled,
+    // falling back to the generator's estimate where the neighbour isn't loaded
+    const originX = voxels.cx * CHUNK_SIZE;
+    const originZ = voxels.cz * CHUNK_SIZE;
+    const estimateBorder = createBorderLookup(voxels.cx, voxels.cz);
+    const estimateBorderLight = createBorderLightLookup(voxels.cx, voxels.cz);
+    const neighbourBlock = (x: number, y: number, z: number) => {
+      const worldX = originX + x;
+      const worldZ = originZ + z;
+      if (getChunkVoxels(getChunkCoord(worldX), getChunkCoord(worldZ))) {
+        return getBlock(worldX, y, worldZ);
+      }
+      return estimateBorder(x, y, z);
+    };
+    const neighbourLight = (x: number, y: number, z: number) => {
+      const worldX = originX + x;
+      const worldZ = originZ + z;
+      const neighbourX = getChunkCoord(worldX);
+      const neighbourZ = getChunkCoord(worldZ);
+      const neighbour = getChunkVoxels(neighbourX, neighbourZ);
+      if (neighbour) {
+        return getVoxel(neighbour.light, voxelIndex(worldX - neighbourX * CHUNK_SIZE, y, worldZ - neighbourZ * CHUNK_SIZE));
+      }
+      return estimateBorderLight(x, y, z);
+    };
+
+    for (const section of sections) {
+      // Remove the section's old block meshes (materials are shared, only the geometry belongs to the chunk)
+      const oldMeshes = chunk.children.filter(child => child.userData.blockMesh && child.userData.section === section);
+      for (const mesh of oldMeshes) {
+        chunk.remove(mesh);
+        releaseObjectResources(mesh);
+      }
+
+      const meshData = buildSectionMesh(voxels.blocks, voxels.light, section, neighbourBlock, neighbourLight);
+      if (meshData) addSectionMeshes(chunk, section, meshData);
     }
+
+    const record = chunkRecords.get(chunkKey(voxels.cx, voxels.cz));
+    if (record) record.bytes = measureChunkBytes(chunk, voxels.cx, voxels.cz);
+    log(`🔨 Rebuilt ${sections.length} section meshes at ${chunkKey(voxels.cx, voxels.cz)}`);
   }
-  
-  return chunkGroup;
 }
 
-// Request a chunk from the worker
-async function requestChunkFromWorker(cx: number, cz: number): Promise<THREE.Group> {
+// Runs the same generator the worker uses, synchronously on the main thread
+function generateChunkOnMainThread(cx: number, cz: number): THREE.Group {
+  return createChunkFromWorkerData(cx, cz, generateChunkData(cx, cz));
+}
+
+// Request a chunk from the worker pool - resolves with null if the request gets cancelled
+// because the chunk is no longer wanted. Urgent requests are never cancelled and jump the queue.
+function requestChunkFromWorker(cx: number, cz: number, urgent = false): Promise<THREE.Group | null> {
   const key = chunkKey(cx, cz);
-  
-  return new Promise((resolve, reject) => {
-    if (!chunkWorker) {
-      return reject(new Error('Chunk worker not initialized'));
-    }
-    
-    // Store the pending request
-    pendingChunkRequests.set(key, { resolve, reject });
-    
-    // Request the chunk from the worker
-    chunkWorker.postMessage({
-      type: 'generateChunk',
-      data: { cx, cz }
-    });
-  });
+  const priority = urgent ? -1 : getLoadPriority(cx, cz);
+
+  const pending = pendingChunkRequests.get(key);
+  if (pending) {
+    // Already on its way - just make sure it is treated as urgent if it needs to be
+    if (prioritizeJob(`chunk:${key}`, priority, !urgent) || !urgent) return pending;
+    // Its job was cancelled (or has settled and the chunk is being built): an urgent caller
+    // waits for it and asks again if it came to nothing
+    return pending.then(chunk => chunk ?? requestChunkFromWorker(cx, cz, true));
+  }
+
+  const request = runJob(`chunk:${key}`, 'generateChunk', { cx, cz }, priority, !urgent)
+    .then(payload => payload ? createChunkFromWorkerData(cx, cz, decodeChunkPayload(payload)) : null)
+    .finally(() => pendingChunkRequests.delete(key));
+  pendingChunkRequests.set(key, request);
+  return request;
 }
 
 export function setRenderDistance(distance: number) {
   renderDistance = distance;
+  setViewDistance(renderDistance * CHUNK_SIZE);
+  lastChunkX = Infinity;
+  lastChunkZ = Infinity;
+}
+
+/**
+ * Sets the LOD levels. Steps must double from one level to the next starting at 2
+ * (2, 4, 8, ...), with minDistance growing along with them.
+ */
+export function setLodLevels(levels: LodLevel[]) {
+  const sorted = [...levels].sort((a, b) => a.step - b.step);
+  sorted.forEach((level, index) => {
+    if (level.step !== 2 ** (index + 1)) {
+      throw new Error(`LOD steps must be 2, 4, 8, ... - got ${sorted.map(l => l.step).join(', ')}`);
+    }
+    if (index > 0 && level.minDistance < sorted[index - 1]!.minDistance) {
+      throw new Error('LOD distances must grow with the step');
+    }
+  });
+
+  lodLevels = sorted;
   lastChunkX = Infinity;
   lastChunkZ = Infinity;
 }
 
+export function getLodLevels(): readonly LodLevel[] {
+  return lodLevels;
+}
+
+// Tiles stitched to different neighbours are different meshes, so the edge steps are part of the key
+function lodKey(tx: number, tz: number, step: number, edgeSteps: LodEdgeSteps): string {
+  return `${step}:${tx},${tz}:${edgeSteps.join(',')}`;
+}
+
+/**
+ * Steps to stitch a selected tile's edges to: a coarser tile's across the edge, otherwise the
+ * tile's own (finer tiles stitch to it, and its skirts cover the gaps to full chunks)
+ *
+ * @param selected Keys (step:tx,tz) of every tile selected, whatever their edges
+ */
+function getLodEdgeSteps(tx: number, tz: number, step: number, selected: Set<string>): LodEdgeSteps {
+  const stepAt = (cx: number, cz: number) => {
+    for (const level of lodLevels) {
+      if (level.step <= step) continue;
+      const levelX = wrapLodTileCoord(Math.floor(cx / level.step), level.step);
+      const levelZ = wrapLodTileCoord(Math.floor(cz / level.step), level.step);
+      if (selected.has(`${level.step}:${levelX},${levelZ}`)) return level.step;
+    }
+    return step;
+  };
+  const minX = tx * step;
+  const minZ = tz * step;
+  return [stepAt(minX, minZ - 1), stepAt(minX, minZ + step), stepAt(minX - 1, minZ), stepAt(minX + step, minZ)];
+}
+
+/**
+ * The tile inside a wrapping world that a LOD tile coordinate stands for - when the world is a
+ * whole number of the level's tiles across. Otherwise the tiles past an edge don't line up with
+ * the ones at the opposite edge, and stay tiles of their own (showing the same, wrapped terrain).
+ */
+function wrapLodTileCoord(t: number, step: number): number {
+  const shift = wrapChunkCoord(t * step) - t * step;
+  return shift % step === 0 ? t + shift / step : t;
+}
+
+/**
+ * Walks the terrain around the player from the coarsest LOD tiles down, splitting tiles that
+ * are too close for their level. Every spot within the render distance ends up covered by
+ * exactly one full chunk or LOD tile. A wrapping world is walked up to half its width from the
+ * player on every side, past which the same terrain would come round again.
+ */
+function selectTerrain(
+  playerChunkX: number,
+  playerChunkZ: number,
+  onChunk: (cx: number, cz: number) => void,
+  onTile: (tx: number, tz: number, step: number) => void
+) {
+  const { worldBounds, wrapWorld } = generationConfig;
+  const half = (worldBounds.max - worldBounds.min + 1) / 2;
+  const boundsX = wrapWorld ? { min: playerChunkX - half, max: playerChunkX + half - 1 } : worldBounds;
+  const boundsZ = wrapWorld ? { min: playerChunkZ - half, max: playerChunkZ + half - 1 } : worldBounds;
+
+  const visit = (tx: number, tz: number, step: number) => {
+    const minX = tx * step;
+    const minZ = tz * step;
+    if (minX + step - 1 < boundsX.min || minX > boundsX.max || minZ + step - 1 < boundsZ.min || minZ > boundsZ.max) return;
+
+    // Distance in chunks from the player's chunk to the nearest chunk of the tile
+    const dx = Math.max(0, minX - playerChunkX, playerChunkX - (minX + step - 1));
+    const dz = Math.max(0, minZ - playerChunkZ, playerChunkZ - (minZ + step - 1));
+    const distanceSq = dx * dx + dz * dz;
+    if (distanceSq > renderDistance * renderDistance) return;
+
+    if (step === 1) {
+      onChunk(tx, tz);
+      return;
+    }
+
+    const level = lodLevels[Math.log2(step) - 1]!;
+    if (distanceSq < level.minDistance * level.minDistance) {
+      const half = step / 2;
+      for (let a = 0; a < 2; a++) {
+        for (let b = 0; b < 2; b++) {
+          visit(tx * 2 + a, tz * 2 + b, half);
+        }
+      }
+    } else {
+      onTile(tx, tz, step);
+    }
+  };
+
+  const rootStep = lodLevels.length > 0 ? lodLevels[lodLevels.length - 1]!.step : 1;
+  const minTx = Math.floor((playerChunkX - renderDistance) / rootStep);
+  const maxTx = Math.floor((playerChunkX + renderDistance) / rootStep);
+  const minTz = Math.floor((playerChunkZ - renderDistance) / rootStep);
+  const maxTz = Math.floor((playerChunkZ + renderDistance) / rootStep);
+  for (let tx = minTx; tx <= maxTx; tx++) {
+    for (let tz = minTz; tz <= maxTz; tz++) {
+      visit(tx, tz, rootStep);
+    }
+  }
+}
+
+// Request a LOD tile mesh, from the worker when there is one
+function requestLodTile(tx: number, tz: number, step: number, edgeSteps: LodEdgeSteps) {
+  const key = lodKey(tx, tz, step, edgeSteps);
+  if (lodTiles.has(key) || pendingLodRequests.has(key)) return;
+
+  if (!hasWorkers()) {
+    addLodTile(tx, tz, step, edgeSteps, buildLodTileMesh(tx, tz, step, edgeSteps));
+    return;
+  }
+
+  pendingLodRequests.add(key);
+  runJob(`lod:${key}`, 'generateLod', { tx, tz, step, edgeSteps }, getLodLoadPriority(tx, tz, step))
+    .then(result => {
+      pendingLodRequests.delete(key);
+      if (result) addLodTile(tx, tz, step, edgeSteps, decodeMeshPayload(result.mesh));
+    })
+    .catch(error => {
+      pendingLodRequests.delete(key);
+      console.error(`Error generating LOD tile ${key}:`, error);
+    });
+}
+
+function addLodTile(tx: number, tz: number, step: number, edgeSteps: LodEdgeSteps, meshData: MeshData) {
+  const key = lodKey(tx, tz, step, edgeSteps);
+  pendingLodRequests.delete(key);
+  if (lodTiles.has(key)) return;
+
+  const tile = new THREE.Mesh(createGeometry(meshData), lodMaterial);
+  tile.userData = { lodTile: true, tx, tz, step };
+  placeLodTile(tile);
+  tile.visible = visibleLodKeys.has(key);
+  scene.add(tile);
+  lodTiles.set(key, tile);
+}
+
+// Moves a LOD tile to the copy of its place nearest the player, like placeChunk
+function placeLodTile(tile: THREE.Mesh): void {
+  const { tx, tz, step } = tile.userData as { tx: number, tz: number, step: number };
+  const centerX = (tx + 0.5) * step;
+  const centerZ = (tz + 0.5) * step;
+  const minX = tx * step + getNearestChunkCopy(centerX, priorityChunkX) - centerX;
+  const minZ = tz * step + getNearestChunkCopy(centerZ, priorityChunkZ) - centerZ;
+  tile.position.set(minX * CHUNK_SIZE, 0, minZ * CHUNK_SIZE);
+}
+
+// Shows the selected LOD tiles and retires or unloads the rest
+function updateLodTiles(selected: Set<string>) {
+  for (const key of visibleLodKeys) {
+    if (!selected.has(key)) retiringLodKeys.add(key);
+  }
+
+  visibleLodKeys.clear();
+  for (const key of selected) {
+    visibleLodKeys.add(key);
+    retiringLodKeys.delete(key);
+    const tile = lodTiles.get(key);
+    if (tile) tile.visible = true;
+  }
+
+  // Drop hidden tiles once there are too many (the material is shared, only the geometry goes)
+  if (lodTiles.size > MAX_CACHED_LOD_TILES) {
+    for (const [key, tile] of lodTiles) {
+      if (visibleLodKeys.has(key) || retiringLodKeys.has(key)) continue;
+      scene.remove(tile);
+      tile.geometry.dispose();
+      lodTiles.delete(key);
+      if (lodTiles.size <= MAX_CACHED_LOD_TILES) break;
+    }
+  }
+}
+
+// Hides retired LOD tiles once nothing is left loading to take their place
+function hideRetiredLodTiles() {
+  if (retiringLodKeys.size === 0) return;
+  if (chunkQueue.length > 0 || getPendingJobCount() > 0) return;
+
+  for (const key of retiringLodKeys) {
+    const tile = lodTiles.get(key);
+    if (tile) tile.visible = false;
+  }
+  retiringLodKeys.clear();
+}
+
 function chunkKey(x: number, z: number): string {
   return `${x},${z}`;
 }
@@ -262,9 +616,78 @@ function getChunkCoord(coord: number): number {
   return Math.floor(coord / CHUNK_SIZE);
 }
 
+export function getChunkState(cx: number, cz: number): ChunkState {
+  return chunkRecords.get(chunkKey(wrapChunkCoord(cx), wrapChunkCoord(cz)))?.state ?? 'evicted';
+}
+
+// Moves a chunk on in its life. Out-of-order moves are reported but still made, so a bug shows
+// up in the log rather than as a chunk stuck in the wrong state.
+function setChunkState(key: string, state: ChunkState): void {
+  const record = chunkRecords.get(key);
+  const from = record?.state ?? 'evicted';
+  if (from === state) return;
+  if (!CHUNK_TRANSITIONS[from].includes(state)) {
+    console.warn(`⚠️ Chunk ${key} went from ${from} to ${state}`);
+  }
+
+  if (state === 'evicted') {
+    chunkRecords.delete(key);
+  } else if (record) {
+    record.state = state;
+  } else {
+    chunkRecords.set(key, { state, lastAccessed: performance.now(), bytes: 0 });
+  }
+}
+
+// Moves a chunk to the copy of its place nearest the player - in a wrapping world the chunks at
+// the far edge are shown past the near one when the player is close to it
+function placeChunk(chunk: THREE.Group): void {
+  const { cx, cz } = chunk.userData as { cx: number, cz: number };
+  chunk.position.set(getNearestChunkCopy(cx, priorityChunkX) * CHUNK_SIZE, 0, getNearestChunkCopy(cz, priorityChunkZ) * CHUNK_SIZE);
+}
+
+// Puts a meshed or cached chunk on screen
+function showChunk(key: string, chunk: THREE.Group): void {
+  placeChunk(chunk);
+  if (!chunk.parent) scene.add(chunk);
+  chunks.set(key, chunk);
+  chunk.visible = true;
+  setChunkState(key, 'visible');
+  chunkRecords.get(key)!.lastAccessed = performance.now();
+  visibleChunkKeys.add(key);
+}
+
+// Keeps a meshed chunk loaded but hidden, first in line for eviction
+function cacheChunk(key: string, chunk: THREE.Group): void {
+  placeChunk(chunk);
+  if (!chunk.parent) scene.add(chunk);
+  chunks.set(key, chunk);
+  chunk.visible = false;
+  setChunkState(key, 'cached');
+}
+
+// Bytes a chunk holds on to: its voxels and the geometry only it uses
+function measureChunkBytes(chunk: THREE.Group, cx: number, cz: number): number {
+  const voxels = getChunkVoxels(cx, cz);
+  let bytes = voxels ? getSectionsByteLength(voxels.blocks) + getSectionsByteLength(voxels.light) + voxels.heightmap.byteLength : 0;
+  chunk.traverse(object => {
+    if (!(object instanceof THREE.Mesh) || isSharedResource(object.geometry)) return;
+    const geometry = object.geometry as THREE.BufferGeometry;
+    for (const attribute of Object.values(geometry.attributes)) {
+      bytes += (attribute as THREE.BufferAttribute).array.byteLength;
+    }
+    if (geometry.index) bytes += geometry.index.array.byteLength;
+  });
+  return bytes;
+}
+
 async function ensureChunkNow(cx: number, cz: number): Promise<void> {
+  // Past the edge of a wrapping world, the chunk at the opposite edge
+  cx = wrapChunkCoord(cx);
+  cz = wrapChunkCoord(cz);
+
   // Check if the chunk is within world boundaries
-  if (cx < WORLD_MIN || cx > WORLD_MAX || cz < WORLD_MIN || cz > WORLD_MAX) {
+  if (!isChunkInWorld(cx, cz)) {
     // Skip chunks outside the world boundary
     return;
   }
@@ -273,135 +696,213 @@ async function ensureChunkNow(cx: number, cz: number): Promise<void> {
   let chunk: THREE.Group;
   
   if (!chunks.has(key)) {
+    setChunkState(key, 'requested');
     try {
-      // Use the worker if initialized, otherwise fallback to main thread
-      if (chunkWorker) {
-        chunk = await requestChunkFromWorker(cx, cz);
+      // Use the workers if initialized, otherwise fallback to main thread
+      if (hasWorkers()) {
+        const generated = await requestChunkFromWorker(cx, cz, true);
+        // Cancelled by cancelAllJobs - the world is being regenerated and wants this chunk anew
+        if (!generated) {
+          log(`🚫 Chunk ${key} was cancelled before it arrived`);
+          return;
+        }
+        chunk = generated;
       } else {
         // Fallback to synchronous generation on main thread
-        chunk = generateChunk(cx, cz);
+        chunk = generateChunkOnMainThread(cx, cz);
       }
       
-      chunk.visible = true;
-      scene.add(chunk);
-      chunks.set(key, chunk);
+      showChunk(key, chunk);
       log(`🆕 Generated new chunk at ${key}`);
       
     } catch (error) {
       console.error(`Failed to generate chunk ${key}:`, error);
       // Fallback to synchronous generation on main thread
-      chunk = generateChunk(cx, cz);
-      chunk.visible = true;
-      scene.add(chunk);
-      chunks.set(key, chunk);
+      chunk = generateChunkOnMainThread(cx, cz);
+      showChunk(key, chunk);
       log(`🔄 Fallback: generated chunk at ${key} on main thread`);
     }
   } else {
     // Reuse existing chunk and make it visible
     chunk = chunks.get(key)!;
-    chunk.visible = true;
+    showChunk(key, chunk);
     log(`♻️ Reused existing chunk at ${key}`);
   }
-  
-  // Record access time for LRU cache management
-  chunkLastAccessed.set(key, performance.now());
-  visibleChunkKeys.add(key);
 }
 
 function enqueueChunk(cx: number, cz: number) {
+  // Past the edge of a wrapping world, the chunk at the opposite edge
+  cx = wrapChunkCoord(cx);
+  cz = wrapChunkCoord(cz);
+
   // Check if the chunk is within world boundaries
-  if (cx < WORLD_MIN || cx > WORLD_MAX || cz < WORLD_MIN || cz > WORLD_MAX) {
+  if (!isChunkInWorld(cx, cz)) {
     // Skip chunks outside the world boundary
     return;
   }
 
   const key = chunkKey(cx, cz);
   if (!chunks.has(key)) {
+    // Already on its way
+    if (chunkRecords.has(key)) return;
+    setChunkState(key, 'requested');
     chunkQueue.push(async () => {
+      // The player moved away while it waited in the queue
+      if (!chunksInRange.has(key)) {
+        if (getChunkState(cx, cz) === 'requested' && !pendingChunkRequests.has(key)) setChunkState(key, 'evicted');
+        return;
+      }
+
       try {
-        let chunk: THREE.Group;
+        // Loaded in the meantime (ensureChunkNow doesn't wait for the queue)
+        const loaded = chunks.get(key);
+        if (loaded) {
+          showChunk(key, loaded);
+          return;
+        }
+
+        let chunk: THREE.Group | null;
         
-        // Use the worker if initialized, otherwise fallback to main thread
-        if (chunkWorker) {
+        // Use the workers if initialized, otherwise fallback to main thread
+        if (hasWorkers()) {
           chunk = await requestChunkFromWorker(cx, cz);
         } else {
           // Fallback to synchronous generation on main thread
-          chunk = generateChunk(cx, cz);
+          chunk = generateChunkOnMainThread(cx, cz);
+        }
+        // Cancelled - the player moved on before it was generated. An urgent request made since
+        // (ensureChunkNow) still wants it, though.
+        if (!chunk) {
+          if (getChunkState(cx, cz) === 'requested' && !pendingChunkRequests.has(key)) setChunkState(key, 'evicted');
+          return;
+        }
+
+        // Out of range by the time it arrived - keep it cached rather than putting it on screen
+        if (!chunksInRange.has(key)) {
+          cacheChunk(key, chunk);
+          return;
         }
         
-        chunk.visible = true;
-        scene.add(chunk);
-        chunks.set(key, chunk);
-        chunkLastAccessed.set(key, performance.now());
-        visibleChunkKeys.add(key);
+        showChunk(key, chunk);
         
       } catch (error) {
         console.error(`Failed to generate queued chunk ${key}:`, error);
+        if (getChunkState(cx, cz) === 'requested') setChunkState(key, 'evicted');
       }
     });
   } else {
     chunkQueue.push(() => {
-      const chunk = chunks.get(key)!;
-      chunk.visible = true;
-      chunkLastAccessed.set(key, performance.now());
-      visibleChunkKeys.add(key);
+      const chunk = chunks.get(key);
+      if (chunk && chunksInRange.has(key)) showChunk(key, chunk);
     });
   }
 }
 
+/**
+ * Picks which chunks and LOD tiles to show and load around the player. Selection runs again
+ * whenever the player enters another chunk, turns the camera or changes where they are heading:
+ * missing chunks load when they come into view, near the player or along their path, and loaded
+ * chunks in range stay shown (the renderer culls whatever is off screen).
+ */
 export function updateChunks(playerPosition: THREE.Vector3) {
   const playerChunkX = getChunkCoord(playerPosition.x);
   const playerChunkZ = getChunkCoord(playerPosition.z);
   const playerChunkKey = chunkKey(playerChunkX, playerChunkZ);
 
-  if (playerChunkX === lastChunkX && playerChunkZ === lastChunkZ) return;
+  updatePlayerVelocity(playerPosition);
+  const prefetchChunks = getPrefetchChunks(playerPosition);
+
+  camera.getWorldDirection(currentViewDirection);
+  currentViewDirection.y = 0;
+  if (currentViewDirection.lengthSq() > 0) currentViewDirection.normalize();
+
+  const enteredChunk = playerChunkX !== lastChunkX || playerChunkZ !== lastChunkZ;
+  const turned = currentViewDirection.dot(viewDirection) < Math.cos(VIEW_UPDATE_ANGLE);
+  const prefetchMoved = prefetchChunks.key !== lastPrefetchKey;
+  if (!enteredChunk && !turned && !prefetchMoved) return;
   lastChunkX = playerChunkX;
   lastChunkZ = playerChunkZ;
+  lastPrefetchKey = prefetchChunks.key;
 
-  log(`🧭 Player Position: (${playerPosition.x.toFixed(3)}, ${playerPosition.z.toFixed(3)})`);
-  log(`🗺️ Player Chunk: ${playerChunkKey}`);
+  if (enteredChunk) {
+    log(`🧭 Player Position: (${playerPosition.x.toFixed(3)}, ${playerPosition.z.toFixed(3)})`);
+    log(`🗺️ Player Chunk: ${playerChunkKey}`);
+  }
 
-  // Update frustum from current camera
+  // Update frustum from current camera (getWorldDirection has brought its matrices up to date)
   projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
   frustum.setFromProjectionMatrix(projScreenMatrix);
 
+  // Load what's close and in front of the camera first
+  priorityChunkX = playerChunkX;
+  priorityChunkZ = playerChunkZ;
+  viewDirection.copy(currentViewDirection);
+
+  // Crossing into another chunk may have brought the far side of a wrapping world closer
+  if (enteredChunk) {
+    for (const chunk of chunks.values()) placeChunk(chunk);
+    for (const tile of lodTiles.values()) placeLodTile(tile);
+  }
+
   const newVisible = new Set<string>();
-  const maxDistSq = renderDistance * renderDistance;
+  chunksInRange.clear();
+  const selectedTiles: Array<{ tx: number, tz: number, step: number }> = [];
+  const selectedTileKeys = new Set<string>();
+  const selectedLodKeys = new Set<string>();
 
   // Guarantee the player chunk exists now
   ensureChunkNow(playerChunkX, playerChunkZ);
   newVisible.add(playerChunkKey);
 
-  // Generate chunks in a square radius around the player
-  for (let dx = -renderDistance; dx <= renderDistance; dx++) {
-    for (let dz = -renderDistance; dz <= renderDistance; dz++) {
-      if (dx * dx + dz * dz > maxDistSq) continue; // Skip chunks outside circular radius
-      const cx = playerChunkX + dx;
-      const cz = playerChunkZ + dz;
-      const key = chunkKey(cx, cz);
-      
-      if (key !== playerChunkKey) {
-        // Create a bounding box for the chunk to check if it's in view
-        const chunkBox = new THREE.Box3(
-          new THREE.Vector3(cx * CHUNK_SIZE, 0, cz * CHUNK_SIZE),
-          new THREE.Vector3((cx + 1) * CHUNK_SIZE, MAX_HEIGHT, (cz + 1) * CHUNK_SIZE)
-        );
-        
-        // Only add chunk to visible set if it's within the camera frustum
-        if (frustum.intersectsBox(chunkBox)) {
-          newVisible.add(key);
-          enqueueChunk(cx, cz);
-        }
-      }
+  // Full chunks close to the player, LOD tiles further out
+  selectTerrain(playerChunkX, playerChunkZ, (cx, cz) => {
+    const key = chunkKey(wrapChunkCoord(cx), wrapChunkCoord(cz));
+    chunksInRange.add(key);
+    if (key === playerChunkKey) return;
+
+    // Chunks that are already loaded stay, missing ones load if they are wanted right now
+    const nearPlayer = Math.max(Math.abs(cx - playerChunkX), Math.abs(cz - playerChunkZ)) <= ALWAYS_LOADED_RADIUS;
+    if (chunks.has(key) || nearPlayer || prefetchChunks.keys.has(key) || isChunkInView(cx, cz)) {
+      newVisible.add(key);
+      enqueueChunk(cx, cz);
     }
+  }, (tx, tz, step) => {
+    const wrappedX = wrapLodTileCoord(tx, step);
+    const wrappedZ = wrapLodTileCoord(tz, step);
+    const tileKey = `${step}:${wrappedX},${wrappedZ}`;
+    // A tile at the far edge of a wrapping world can be reached from both sides
+    if (selectedTileKeys.has(tileKey)) return;
+    selectedTiles.push({ tx: wrappedX, tz: wrappedZ, step });
+    selectedTileKeys.add(tileKey);
+  });
+
+  // LOD tiles are cheap, so they load whether in view or not and turning around shows no holes.
+  // Their edges are stitched to whatever was selected next to them.
+  for (const { tx, tz, step } of selectedTiles) {
+    const edgeSteps = getLodEdgeSteps(tx, tz, step, selectedTileKeys);
+    selectedLodKeys.add(lodKey(tx, tz, step, edgeSteps));
+    requestLodTile(tx, tz, step, edgeSteps);
   }
 
+  updateLodTiles(selectedLodKeys);
+
+  // Drop queued requests for terrain the player has left behind, reorder the rest
+  reprioritizeJobs(job => {
+    if (job.type === 'generateChunk') {
+      const { cx, cz } = job.data;
+      return chunksInRange.has(chunkKey(cx, cz)) ? getLoadPriority(cx, cz) : null;
+    }
+    const { tx, tz, step, edgeSteps } = job.data;
+    return selectedLodKeys.has(lodKey(tx, tz, step, edgeSteps)) ? getLodLoadPriority(tx, tz, step) : null;
+  });
+
   // Hide chunks that are no longer visible
   for (const key of visibleChunkKeys) {
     if (!newVisible.has(key)) {
       const chunk = chunks.get(key);
       if (chunk) {
         chunk.visible = false;
+        setChunkState(key, 'cached');
       }
     }
   }
@@ -413,71 +914,140 @@ export function updateChunks(playerPosition: THREE.Vector3) {
   manageChunkCache(playerChunkX, playerChunkZ);
 }
 
+// Tracks how fast the player moves across the ground, for prefetching
+function updatePlayerVelocity(playerPosition: THREE.Vector3) {
+  const now = performance.now();
+  const elapsed = (now - lastVelocityTime) / 1000;
+  const dx = playerPosition.x - lastPlayerPosition.x;
+  const dz = playerPosition.z - lastPlayerPosition.y;
+  lastPlayerPosition.set(playerPosition.x, playerPosition.z);
+  lastVelocityTime = now;
+
+  // First call, a stalled frame or a jump across the world (a save loading, wrapping at the border)
+  if (elapsed <= 0 || elapsed > 0.5 || dx * dx + dz * dz > CHUNK_SIZE * CHUNK_SIZE) {
+    playerVelocity.set(0, 0);
+    return;
+  }
+  const smoothing = Math.min(1, elapsed * 5);
+  playerVelocity.x += (dx / elapsed - playerVelocity.x) * smoothing;
+  playerVelocity.y += (dz / elapsed - playerVelocity.y) * smoothing;
+}
+
+// Chunks on the line from the player to where they will be in PREFETCH_SECONDS, within the
+// render distance, keyed like the loaded chunks. The key names the chunk the line ends in.
+function getPrefetchChunks(playerPosition: THREE.Vector3): { key: string, keys: Set<string> } {
+  const keys = new Set<string>();
+  let aheadX = playerVelocity.x * PREFETCH_SECONDS;
+  let aheadZ = playerVelocity.y * PREFETCH_SECONDS;
+  const ahead = Math.hypot(aheadX, aheadZ);
+  // Standing still (or just shuffling about) - nothing to prefetch
+  if (ahead < CHUNK_SIZE) return { key: '', keys };
+
+  const maxAhead = renderDistance * CHUNK_SIZE;
+  if (ahead > maxAhead) {
+    aheadX *= maxAhead / ahead;
+    aheadZ *= maxAhead / ahead;
+  }
+
+  // Half a chunk per step so no chunk along the line is skipped
+  const steps = Math.ceil(Math.hypot(aheadX, aheadZ) / (CHUNK_SIZE / 2));
+  let endX = 0;
+  let endZ = 0;
+  for (let i = 1; i <= steps; i++) {
+    endX = wrapChunkCoord(getChunkCoord(playerPosition.x + aheadX * i / steps));
+    endZ = wrapChunkCoord(getChunkCoord(playerPosition.z + aheadZ * i / steps));
+    keys.add(chunkKey(endX, endZ));
+  }
+  return { key: chunkKey(endX, endZ), keys };
+}
+
+function isChunkInView(cx: number, cz: number): boolean {
+  chunkBox.min.set(cx * CHUNK_SIZE, 0, cz * CHUNK_SIZE);
+  chunkBox.max.set((cx + 1) * CHUNK_SIZE, MAX_HEIGHT, (cz + 1) * CHUNK_SIZE);
+  return frustum.intersectsBox(chunkBox);
+}
+
 export function processChunkQueue(limit: number = 4) {
   for (let i = 0; i < limit && chunkQueue.length > 0; i++) {
     const task = chunkQueue.shift();
     task?.();
   }
+
+  // Apply block edits made since the last frame
+  rebuildDirtyChunks();
+
+  hideRetiredLodTiles();
   // log(`🟩 Visible Chunks (${visibleChunkKeys.size}): ${[...visibleChunkKeys].join(', ')}`);
 }
 
-// Add this new function to manage chunk caching
+/**
+ * Sets how much memory loaded chunks may take up, in bytes. Chunks on screen are never evicted,
+ * so the render distance can push usage past it.
+ */
+export function setChunkMemoryBudget(bytes: number) {
+  chunkMemoryBudget = bytes;
+}
+
+// The budget, shrunk to what the JS heap has room for where the browser reports it (Chromium)
+function getChunkMemoryBudget(loadedBytes: number): number {
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number, jsHeapSizeLimit: number } }).memory;
+  if (!memory) return chunkMemoryBudget;
+  const headroom = memory.jsHeapSizeLimit * 0.75 - memory.usedJSHeapSize;
+  return Math.min(chunkMemoryBudget, loadedBytes + headroom);
+}
+
+// Evicts cached chunks, least recently used first, until loaded chunks fit the memory budget
 function manageChunkCache(playerChunkX: number, playerChunkZ: number) {
-  if (chunks.size <= MAX_CACHED_CHUNKS) return;
-  
-  // Get chunks sorted by last accessed time (oldest first)
-  const sortedChunks = [...chunkLastAccessed.entries()]
-    .sort((a, b) => a[1] - b[1]);
-  
-  // Calculate how many chunks to remove
-  const chunksToRemove = Math.max(10, chunks.size - MAX_CACHED_CHUNKS);
-  
-  // Remove oldest chunks that are far enough from player
-  let removedCount = 0;
-  for (const [key, lastAccessed] of sortedChunks) {
-    if (removedCount >= chunksToRemove) break;
-    
-    // Parse chunk coordinates from key
-    const [cx, cz] = key.split(',').map(Number);
+  let loadedBytes = 0;
+  for (const record of chunkRecords.values()) loadedBytes += record.bytes;
+  const budget = getChunkMemoryBudget(loadedBytes);
+  if (loadedBytes <= budget) return;
 
-    if (cx === undefined || cz === undefined) continue; // Skip invalid keys
-    
-    // Check if chunk is far enough from player to unload
-    const distSq = (cx - playerChunkX) * (cx - playerChunkX) + 
-                   (cz - playerChunkZ) * (cz - playerChunkZ);
-    
-    if (distSq > CHUNK_UNLOAD_DISTANCE * CHUNK_UNLOAD_DISTANCE) {
-      const chunk = chunks.get(key);
-      if (chunk) {
-        // Remove the chunk from the scene
-        scene.remove(chunk);
-        
-        // Clear the chunk's resources
-        chunk.traverse((object) => {
-          if (object instanceof THREE.Mesh) {
-            if (object.geometry) object.geometry.dispose();
-            if (object.material) {
-              if (Array.isArray(object.material)) {
-                object.material.forEach(material => material.dispose());
-              } else {
-                object.material.dispose();
-              }
-            }
-          }
-        });
-        
-        // Remove from our data structures
-        chunks.delete(key);
-        chunkLastAccessed.delete(key);
-        visibleChunkKeys.delete(key);
-        
-        removedCount++;
-        log(`🗑️ Unloaded old chunk at ${key}`);
-      }
-    }
+  const keepDistance = renderDistance + CACHE_KEEP_MARGIN;
+  const candidates = [...chunkRecords]
+    .filter(([key, record]) => {
+      if (record.state !== 'cached') return false;
+      const [cx, cz] = key.split(',').map(Number) as [number, number];
+      const dx = getNearestChunkCopy(cx, playerChunkX) - playerChunkX;
+      const dz = getNearestChunkCopy(cz, playerChunkZ) - playerChunkZ;
+      return Math.max(Math.abs(dx), Math.abs(dz)) > keepDistance;
+    })
+    .sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+
+  let evicted = 0;
+  for (const [key, record] of candidates) {
+    if (loadedBytes <= budget) break;
+    loadedBytes -= record.bytes;
+    unloadChunk(key);
+    evicted++;
+  }
+
+  if (evicted > 0) {
+    const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+    log(`🗑️ Evicted ${evicted} cached chunks - chunks now use ${mb(loadedBytes)} of ${mb(budget)} MB`);
   }
 }
 
+// Removes a chunk from the scene and releases its resources
+function unloadChunk(key: string) {
+  const chunk = chunks.get(key);
+  if (!chunk) return;
+  const { cx, cz } = chunk.userData as { cx: number, cz: number };
+
+  // Remove the chunk from the scene
+  scene.remove(chunk);
+
+  // Geometry and tree labels are the chunk's own, block and tree materials are shared with the
+  // chunks still loaded and only go once the last of them does
+  releaseObjectResources(chunk);
+
+  // Remove from our data structures
+  chunks.delete(key);
+  removeChunkVoxels(cx, cz);
+  setChunkState(key, 'evicted');
+  visibleChunkKeys.delete(key);
+}
+
 /**
  * Prerenders chunks in a specified radius around a position
  * @param centerPosition The center position to prerender around
@@ -500,11 +1070,11 @@ export async function prerenderArea(
   const chunkPositions: Array<[number, number, number]> = [];
   
   // First, add the town hall chunks to ensure they get preloaded
-  townHallPositions.forEach((pos, index) => {
-    const thCx = Math.floor(pos.x / CHUNK_SIZE);
-    const thCz = Math.floor(pos.z / CHUNK_SIZE);
+  generationConfig.townHalls.forEach((pos, index) => {
+    const thCx = getChunkCoord(pos.x);
+    const thCz = getChunkCoord(pos.z);
     // Check if within world boundaries
-    if (thCx >= WORLD_MIN && thCx <= WORLD_MAX && thCz >= WORLD_MIN && thCz <= WORLD_MAX) {
+    if (isChunkInWorld(thCx, thCz)) {
       // Use negative distSq to prioritize town halls
       chunkPositions.push([thCx, thCz, -1000 + index]);
       log(`🏛️ Adding Town Hall chunk at (${thCx}, ${thCz}) to preload queue`);
@@ -524,11 +1094,11 @@ export async function prerenderArea(
       for (let dz = -r; dz <= r; dz++) {
         // Only include points on the perimeter of the square
         if (Math.abs(dx) === r || Math.abs(dz) === r) {
-          const cx = centerChunkX + dx;
-          const cz = centerChunkZ + dz;
+          const cx = wrapChunkCoord(centerChunkX + dx);
+          const cz = wrapChunkCoord(centerChunkZ + dz);
           
           // Skip chunks outside of world boundaries
-          if (cx < WORLD_MIN || cx > WORLD_MAX || cz < WORLD_MIN || cz > WORLD_MAX) {
+          if (!isChunkInWorld(cx, cz)) {
             continue;
           }
           
@@ -592,40 +1162,15 @@ export async function prerenderArea(
   });
 }
 
-// Add this function to get the actual terrain height at a specific world position
-export function getActualTerrainHeight(x: number, z: number): number {
-  // Get the chunk coordinates for this world position
-  const cx = getChunkCoord(x);
-  const cz = getChunkCoord(z);
-  const key = chunkKey(cx, cz);
-  
-  // Convert position to chunk coordinates
-  const localX = Math.floor(x) - cx * CHUNK_SIZE;
-  const localZ = Math.floor(z) - cz * CHUNK_SIZE;
-  
-  // If the chunk exists and is loaded, query its actual height
-  if (chunks.has(key)) {
-    const chunk = chunks.get(key)!;
-    
-    // Use raycasting to find the terrain height
-    const raycaster = new THREE.Raycaster(
-      new THREE.Vector3(x, MAX_HEIGHT + 10, z), // Start from high above
-      new THREE.Vector3(0, -1, 0), // Cast downward
-      0,  // near
-      MAX_HEIGHT + 20 // far - enough to reach ground
-    );
-    
-    // Set the camera property on the raycaster to fix sprite raycasting issues
-    raycaster.camera = camera;
-    
-    const intersects = raycaster.intersectObject(chunk, true);
-    if (intersects.length > 0) {
-      return intersects[0]?.point.y ?? getTerrainHeightAt(x, z);
-    }
-  }
-  
-  // Fall back to the terrain generation function if chunk isn't loaded
-  return getTerrainHeightAt(x, z);
+/**
+ * Whether the block at a world position is solid. Where the chunk isn't loaded yet everything up
+ * to the generator's height counts as solid, so nothing falls through the world while it loads.
+ */
+export function isSolidAt(x: number, y: number, z: number): boolean {
+  const wx = toBlockCoord(x);
+  const wz = toBlockCoord(z);
+  if (getChunkVoxels(getChunkCoord(wx), getChunkCoord(wz))) return isSolidBlock(getBlock(x, y, z));
+  return toBlockCoord(y) <= Math.min(getTerrainHeightAt(wx, wz), MAX_HEIGHT - 1);
 }
 
 // Static town halls - these won't be affected by chunk loading/unloading
@@ -636,19 +1181,16 @@ export function initializeTownHalls(): void {
   }
 
   log('🏛️ Initializing static town halls...');
+  townHalls = generationConfig.townHalls.map(pos => ({
+    position: { ...pos, y: 0 },
+    placed: false
+  }));
   townHalls.forEach((townHall, index) => {
     const pos = townHall.position;
-    // Calculate terrain height for town hall position
-    const worldY = getTerrainHeightAt(pos.x, pos.z);
-    
-    // Create the town hall structure
-    const townHallObject = createTownHallFromData(pos.x, worldY, pos.z);
-    
-    // Add to scene directly - not part of any chunk
-    scene.add(townHallObject);
+    // The hall and its village are generated with the terrain - villagers start on the hall's floor
+    const village = getVillage(index, getStructureTerrain());
+    const worldY = village?.buildings[0]?.placement.y ?? getTerrainHeightAt(pos.x, pos.z);
     
-    // Update town hall object
-    townHall.group = townHallObject;
     townHall.position.y = worldY;
     townHall.placed = true;
     
@@ -656,7 +1198,7 @@ export function initializeTownHalls(): void {
     
     // Spawn villagers at this town hall
     import('./npc-manager').then(({ spawnVillagersAtTownHall }) => {
-      spawnVillagersAtTownHall({ x: pos.x, y: worldY, z: pos.z }, index);
+      spawnVillagersAtTownHall({ x: pos.x, y: worldY, z: pos.z }, index, village);
       log(`👥 Spawned villagers at Town Hall ${index + 1}`);
     });
   });
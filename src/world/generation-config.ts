@@ -0,0 +1,44 @@
+// Generation config
+// Besides the seed, everything the generator reads comes from the registries (blocks, biomes,
+// structure templates) and the world config (bounds, town hall sites). The game, its chunk workers
+// and the headless worldgen CLI all build and apply the config here, so they can't drift apart
+// and generate different worlds from the same seed.
+import { CHUNK_SIZE, setFlatTerrainMode, setWorldSeed, setWorldWrap } from './terrain';
+import { getBlocks, setBlocks } from './blocks';
+import { getBiomes, setBiomes } from './biomes';
+import { getStructureTemplates, setStructureTemplates } from './structure-templates';
+import { setTownHallSites } from './villages';
+import { getGeneratedChunkBounds, getTownHallSites, getWorldConfig } from './world-config';
+import type { GenerationConfig } from './worker-protocol';
+
+/**
+ * The config for a seed as things stand: the current registries and world config, with options
+ * taking precedence
+ */
+export function createGenerationConfig(seed: number, options: Partial<Omit<GenerationConfig, 'seed'>> = {}): GenerationConfig {
+  return {
+    seed,
+    flatTerrain: false,
+    worldBounds: getGeneratedChunkBounds(),
+    wrapWorld: getWorldConfig().border === 'wrap',
+    blocks: [...getBlocks()],
+    biomes: [...getBiomes()],
+    structures: getStructureTemplates(),
+    townHalls: getTownHallSites(),
+    ...options
+  };
+}
+
+/**
+ * Points this thread's generator at a config
+ */
+export function applyGenerationConfig(config: GenerationConfig): void {
+  setWorldSeed(config.seed);
+  setFlatTerrainMode(config.flatTerrain);
+  const { min, max } = config.worldBounds;
+  setWorldWrap(config.wrapWorld ? { min: min * CHUNK_SIZE, size: (max - min + 1) * CHUNK_SIZE } : null);
+  if (config.blocks !== getBlocks()) setBlocks(config.blocks);
+  if (config.biomes !== getBiomes()) setBiomes(config.biomes);
+  setStructureTemplates(config.structures);
+  setTownHallSites(config.townHalls);
+}
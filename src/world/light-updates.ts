@@ -0,0 +1,183 @@
+// Light across loaded chunks
+// Joins the light of a freshly loaded chunk with its neighbours and relights the world
+// incrementally when a block changes. Any voxel whose light changes marks its chunk (and
+// neighbours facing it) for a mesh rebuild, since light is baked into the vertex colours.
+import { CHUNK_SIZE, MAX_HEIGHT, voxelIndex } from './terrain';
+import { BlockType, getLightEmission, isSolidBlock } from './blocks';
+import { getChunkVoxels, markBlockDirty, type ChunkVoxels } from './voxel-store';
+import { getVoxel, setVoxel } from './sections';
+import { FACE_NEIGHBOURS, getBlockLight, getSpreadLight, getSunlight, MAX_LIGHT, packLight } from './lighting';
+
+// A voxel in a loaded chunk
+interface VoxelRef {
+  voxels: ChunkVoxels;
+  index: number;
+}
+
+function voxelAt(x: number, y: number, z: number): VoxelRef | null {
+  if (y < 0 || y >= MAX_HEIGHT) return null;
+  const cx = Math.floor(x / CHUNK_SIZE);
+  const cz = Math.floor(z / CHUNK_SIZE);
+  const voxels = getChunkVoxels(cx, cz);
+  if (!voxels) return null;
+  return { voxels, index: voxelIndex(x - cx * CHUNK_SIZE, y, z - cz * CHUNK_SIZE) };
+}
+
+function getChannel(ref: VoxelRef, sunlight: boolean): number {
+  const packed = getVoxel(ref.voxels.light, ref.index);
+  return sunlight ? getSunlight(packed) : getBlockLight(packed);
+}
+
+function setChannel(ref: VoxelRef, sunlight: boolean, level: number, x: number, y: number, z: number): void {
+  const packed = getVoxel(ref.voxels.light, ref.index);
+  setVoxel(ref.voxels.light, ref.index, sunlight
+    ? packLight(level, getBlockLight(packed))
+    : packLight(getSunlight(packed), level));
+  markBlockDirty(x, y, z);
+}
+
+/**
+ * Lets light flow both ways across the borders between a newly loaded chunk and its loaded neighbours
+ */
+export function stitchChunkLight(cx: number, cz: number): void {
+  const voxels = getChunkVoxels(cx, cz);
+  if (!voxels) return;
+
+  const sunQueue: number[] = [];
+  const blockQueue: number[] = [];
+
+  // Queues whichever voxel of a border pair is bright enough to light the other
+  const checkPair = (a: ChunkVoxels, ax: number, az: number, b: ChunkVoxels, bx: number, bz: number) => {
+    for (let y = 0; y < MAX_HEIGHT; y++) {
+      const indexA = voxelIndex(ax, y, az);
+      const indexB = voxelIndex(bx, y, bz);
+      const lightA = getVoxel(a.light, indexA);
+      const lightB = getVoxel(b.light, indexB);
+      if (lightA === lightB) continue;
+
+      const openA = !isSolidBlock(getVoxel(a.blocks, indexA) as BlockType);
+      const openB = !isSolidBlock(getVoxel(b.blocks, indexB) as BlockType);
+      const worldA = [a.cx * CHUNK_SIZE + ax, y, a.cz * CHUNK_SIZE + az];
+      const worldB = [b.cx * CHUNK_SIZE + bx, y, b.cz * CHUNK_SIZE + bz];
+
+      if (openB && getSunlight(lightA) > getSunlight(lightB) + 1) sunQueue.push(...worldA);
+      if (openA && getSunlight(lightB) > getSunlight(lightA) + 1) sunQueue.push(...worldB);
+      if (openB && getBlockLight(lightA) > getBlockLight(lightB) + 1) blockQueue.push(...worldA);
+      if (openA && getBlockLight(lightB) > getBlockLight(lightA) + 1) blockQueue.push(...worldB);
+    }
+  };
+
+  const last = CHUNK_SIZE - 1;
+  const west = getChunkVoxels(cx - 1, cz);
+  const east = getChunkVoxels(cx + 1, cz);
+  const north = getChunkVoxels(cx, cz - 1);
+  const south = getChunkVoxels(cx, cz + 1);
+  for (let i = 0; i < CHUNK_SIZE; i++) {
+    if (west) checkPair(voxels, 0, i, west, last, i);
+    if (east) checkPair(voxels, last, i, east, 0, i);
+    if (north) checkPair(voxels, i, 0, north, i, last);
+    if (south) checkPair(voxels, i, last, south, i, 0);
+  }
+
+  spreadLight(sunQueue, true);
+  spreadLight(blockQueue, false);
+}
+
+/**
+ * Relights the world around a block that just changed - removes the light it blocked or gave
+ * off, then lets the surrounding light flow back in
+ */
+export function relightBlock(x: number, y: number, z: number): void {
+  const ref = voxelAt(x, y, z);
+  if (!ref) return;
+  const block = getVoxel(ref.voxels.blocks, ref.index) as BlockType;
+
+  for (const sunlight of [true, false]) {
+    const refill: number[] = [];
+    removeLight(x, y, z, sunlight, refill);
+
+    if (!isSolidBlock(block)) {
+      // Neighbours shine into the block
+      for (const [dx, dy, dz] of FACE_NEIGHBOURS) {
+        refill.push(x + dx, y + dy, z + dz);
+      }
+    }
+
+    const emission = sunlight ? 0 : getLightEmission(block);
+    if (emission > 0) {
+      setChannel(ref, false, emission, x, y, z);
+      refill.push(x, y, z);
+    }
+
+    spreadLight(refill, sunlight);
+  }
+}
+
+// Darkens everything lit through the voxel at (x, y, z). Voxels lit by some other source are
+// queued in refill so their light can spread back into the darkened area.
+function removeLight(x: number, y: number, z: number, sunlight: boolean, refill: number[]): void {
+  const start = voxelAt(x, y, z)!;
+  const startLevel = getChannel(start, sunlight);
+  if (startLevel === 0) return;
+  setChannel(start, sunlight, 0, x, y, z);
+
+  const queue = [x, y, z, startLevel];
+  for (let head = 0; head < queue.length; head += 4) {
+    const qx = queue[head]!;
+    const qy = queue[head + 1]!;
+    const qz = queue[head + 2]!;
+    const level = queue[head + 3]!;
+
+    for (const [dx, dy, dz] of FACE_NEIGHBOURS) {
+      const nx = qx + dx;
+      const ny = qy + dy;
+      const nz = qz + dz;
+      const neighbour = voxelAt(nx, ny, nz);
+      if (!neighbour) continue;
+
+      const neighbourLevel = getChannel(neighbour, sunlight);
+      if (neighbourLevel === 0) continue;
+
+      // Unbroken sunlight below a removed sunlit voxel came from it too
+      const fedByThis = neighbourLevel < level ||
+        (sunlight && dy < 0 && level === MAX_LIGHT && neighbourLevel === MAX_LIGHT);
+      if (fedByThis) {
+        setChannel(neighbour, sunlight, 0, nx, ny, nz);
+        queue.push(nx, ny, nz, neighbourLevel);
+      } else {
+        refill.push(nx, ny, nz);
+      }
+    }
+  }
+}
+
+// Flood fills one light channel outwards from the queued voxels (x, y, z triples), through loaded chunks only
+function spreadLight(queue: number[], sunlight: boolean): void {
+  for (let head = 0; head < queue.length; head += 3) {
+    const x = queue[head]!;
+    const y = queue[head + 1]!;
+    const z = queue[head + 2]!;
+    const ref = voxelAt(x, y, z);
+    if (!ref) continue;
+
+    const level = getChannel(ref, sunlight);
+    if (level <= 1) continue;
+
+    for (const [dx, dy, dz] of FACE_NEIGHBOURS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      const nz = z + dz;
+      const neighbour = voxelAt(nx, ny, nz);
+      if (!neighbour) continue;
+
+      const block = getVoxel(neighbour.voxels.blocks, neighbour.index) as BlockType;
+      if (isSolidBlock(block)) continue;
+
+      const spread = getSpreadLight(level, sunlight, dy < 0, block);
+      if (getChannel(neighbour, sunlight) >= spread) continue;
+
+      setChannel(neighbour, sunlight, spread, nx, ny, nz);
+      queue.push(nx, ny, nz);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// Voxel light levels
+// Every voxel carries two light levels from 0 to 15, packed into one byte: sunlight in the high
+// nibble and block light (from lamps and other glowing blocks) in the low nibble. Both spread by
+// flood fill through non-solid blocks, losing a level per block - except sunlight, which falls
+// straight down through air without fading.
+// This file lights a single chunk on its own (run by the generator); light-updates.ts spreads it
+// across chunk borders and keeps it up to date as blocks change.
+import { CHUNK_SIZE, CHUNK_VOLUME, MAX_HEIGHT, voxelIndex } from './terrain';
+import { BlockType, getLightEmission, isSolidBlock } from './blocks';
+
+export const MAX_LIGHT = 15;
+
+// Packed light of a voxel under the open sky
+export const FULL_SUNLIGHT = MAX_LIGHT << 4;
+
+// Brightness of each light level when baked into vertex colours - each level is 80% of the one above
+export const LIGHT_BRIGHTNESS = Array.from({ length: MAX_LIGHT + 1 }, (_, level) => Math.max(0.04, Math.pow(0.8, MAX_LIGHT - level)));
+
+export function getSunlight(light: number): number {
+  return light >> 4;
+}
+
+export function getBlockLight(light: number): number {
+  return light & 0x0f;
+}
+
+export function packLight(sunlight: number, blockLight: number): number {
+  return (sunlight << 4) | blockLight;
+}
+
+/**
+ * Light a voxel passes on to a neighbour
+ *
+ * @param sunlight Whether this is the sunlight channel
+ * @param downwards Whether the neighbour is directly below
+ */
+export function getSpreadLight(level: number, sunlight: boolean, downwards: boolean, neighbour: BlockType): number {
+  if (sunlight && downwards && level === MAX_LIGHT && neighbour === BlockType.Air) return MAX_LIGHT;
+  return level - 1;
+}
+
+// Offsets to the six face neighbours as [dx, dy, dz]
+export const FACE_NEIGHBOURS: ReadonlyArray<readonly [number, number, number]> = [
+  [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]
+];
+
+/**
+ * Lights a chunk as if nothing around it gave off light: sunlight from the sky above it and
+ * block light from its own glowing blocks. Light from neighbour chunks is added once they are
+ * loaded side by side on the main thread.
+ */
+export function computeChunkLight(blocks: Uint8Array): Uint8Array {
+  const light = new Uint8Array(CHUNK_VOLUME);
+  const sunQueue: number[] = [];
+  const blockQueue: number[] = [];
+
+  // Sunlight falls straight down each column until it hits anything but air
+  const skyFloor = new Int16Array(CHUNK_SIZE * CHUNK_SIZE); // Lowest sunlit y per column
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      let y = MAX_HEIGHT - 1;
+      for (; y >= 0; y--) {
+        const index = voxelIndex(x, y, z);
+        if (blocks[index] !== BlockType.Air) break;
+        light[index] = FULL_SUNLIGHT;
+      }
+      skyFloor[x * CHUNK_SIZE + z] = y + 1;
+    }
+  }
+
+  // Only sunlit voxels next to a darker column (or resting on something) can spread further
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      const floor = skyFloor[x * CHUNK_SIZE + z]!;
+      let top = floor;
+      if (x > 0) top = Math.max(top, skyFloor[(x - 1) * CHUNK_SIZE + z]!);
+      if (x < CHUNK_SIZE - 1) top = Math.max(top, skyFloor[(x + 1) * CHUNK_SIZE + z]!);
+      if (z > 0) top = Math.max(top, skyFloor[x * CHUNK_SIZE + z - 1]!);
+      if (z < CHUNK_SIZE - 1) top = Math.max(top, skyFloor[x * CHUNK_SIZE + z + 1]!);
+      for (let y = floor; y < Math.min(top, MAX_HEIGHT); y++) {
+        sunQueue.push(voxelIndex(x, y, z));
+      }
+      if (floor < MAX_HEIGHT && top === floor) sunQueue.push(voxelIndex(x, floor, z));
+    }
+  }
+
+  for (let index = 0; index < CHUNK_VOLUME; index++) {
+    const emission = getLightEmission(blocks[index] as BlockType);
+    if (emission > 0) {
+      light[index] = light[index]! | emission;
+      blockQueue.push(index);
+    }
+  }
+
+  spreadInChunk(blocks, light, sunQueue, true);
+  spreadInChunk(blocks, light, blockQueue, false);
+  return light;
+}
+
+// Flood fills one light channel from the queued voxels, staying inside the chunk
+function spreadInChunk(blocks: Uint8Array, light: Uint8Array, queue: number[], sunlight: boolean): void {
+  const layerSize = CHUNK_SIZE * CHUNK_SIZE;
+
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head]!;
+    const packed = light[index]!;
+    const level = sunlight ? getSunlight(packed) : getBlockLight(packed);
+    if (level <= 1) continue;
+
+    const x = index % CHUNK_SIZE;
+    const z = Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE;
+    const y = Math.floor(index / layerSize);
+
+    for (const [dx, dy, dz] of FACE_NEIGHBOURS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      const nz = z + dz;
+      if (nx < 0 || nx >= CHUNK_SIZE || nz < 0 || nz >= CHUNK_SIZE || ny < 0 || ny >= MAX_HEIGHT) continue;
+
+      const neighbourIndex = voxelIndex(nx, ny, nz);
+      const neighbour = blocks[neighbourIndex] as BlockType;
+      if (isSolidBlock(neighbour)) continue;
+
+      const spread = getSpreadLight(level, sunlight, dy < 0, neighbour);
+      const neighbourPacked = light[neighbourIndex]!;
+      if (sunlight) {
+        if (getSunlight(neighbourPacked) >= spread) continue;
+        light[neighbourIndex] = packLight(spread, getBlockLight(neighbourPacked));
+      } else {
+        if (getBlockLight(neighbourPacked) >= spread) continue;
+        light[neighbourIndex] = packLight(getSunlight(neighbourPacked), spread);
+      }
+      queue.push(neighbourIndex);
+    }
+  }
+}
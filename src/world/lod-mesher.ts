@@ -0,0 +1,134 @@
+// Low detail terrain for far away areas
+// A LOD tile covers step x step chunks with a single heightmap mesh of CHUNK_SIZE x CHUNK_SIZE
+// quads, so every tile costs the same however much ground it covers. Heights and colours come
+// straight from the generator's height noise and biomes - no voxels, caves or overhangs.
+// Where a tile meets a coarser one, its edge is stitched to the coarser edge: the vertices in
+// between the neighbour's samples are moved onto the straight line between them, so the two
+// edges match exactly and no crack opens between detail levels.
+// Runs in the chunk worker, so like mesher.ts it must stay free of THREE.js objects.
+import { CHUNK_SIZE, WATER_LEVEL, getBlendedBiomeAt, getSurfaceBlock, getTerrainHeightAt } from './terrain';
+import { BlockType, getBlockColor } from './blocks';
+import type { MeshData } from './mesher';
+
+// How far the skirts around a tile hang down, in blocks per sample step. Full chunks are blocky
+// and can't be stitched to, so the skirts cover the gaps where a tile meets them.
+const SKIRT_DEPTH_PER_STEP = 4;
+
+// Sample step of the terrain across each edge of a tile, in the order -z, +z, -x, +x: the tile's
+// own step, or a coarser neighbour's to stitch that edge to
+export type LodEdgeSteps = [number, number, number, number];
+
+/**
+ * Builds the heightmap mesh of the LOD tile (tx, tz) at the given step, in tile-local coordinates.
+ * The tile's origin is block (tx * step * CHUNK_SIZE, 0, tz * step * CHUNK_SIZE).
+ *
+ * @param step Blocks between samples - a power of two, also the tile's width in chunks
+ * @param edgeSteps Steps of the neighbours to stitch the edges to, see LodEdgeSteps
+ */
+export function buildLodTileMesh(tx: number, tz: number, step: number, edgeSteps: LodEdgeSteps = [step, step, step, step]): MeshData {
+  const samples = CHUNK_SIZE + 1; // Vertices per side
+  const originX = tx * step * CHUNK_SIZE;
+  const originZ = tz * step * CHUNK_SIZE;
+
+  // Heights one sample beyond the tile on every side, for normals
+  const padded = samples + 2;
+  const heights = new Float32Array(padded * padded);
+  for (let j = 0; j < padded; j++) {
+    for (let i = 0; i < padded; i++) {
+      const height = getTerrainHeightAt(originX + (i - 1) * step, originZ + (j - 1) * step);
+      heights[j * padded + i] = Math.max(height, WATER_LEVEL) + 0.5; // Top of the surface block
+    }
+  }
+  const heightAt = (i: number, j: number) => heights[(j + 1) * padded + (i + 1)]!;
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const colors: number[] = [];
+  const indices: number[] = [];
+
+  // Surface grid. Vertices sit on block edges so tiles line up with full chunks.
+  for (let j = 0; j < samples; j++) {
+    for (let i = 0; i < samples; i++) {
+      const worldX = originX + i * step;
+      const worldZ = originZ + j * step;
+      positions.push(i * step - 0.5, heightAt(i, j), j * step - 0.5);
+
+      const nx = heightAt(i - 1, j) - heightAt(i + 1, j);
+      const nz = heightAt(i, j - 1) - heightAt(i, j + 1);
+      const ny = 2 * step;
+      const length = Math.hypot(nx, ny, nz);
+      normals.push(nx / length, ny / length, nz / length);
+
+      const height = getTerrainHeightAt(worldX, worldZ);
+      const block = height < WATER_LEVEL
+        ? BlockType.Water
+        : getSurfaceBlock(getBlendedBiomeAt(worldX, worldZ), height);
+      pushLinearColor(colors, getBlockColor(block));
+    }
+  }
+
+  for (let j = 0; j < CHUNK_SIZE; j++) {
+    for (let i = 0; i < CHUNK_SIZE; i++) {
+      const a = j * samples + i;
+      const b = a + 1;
+      const d = a + samples;
+      const c = d + 1;
+      indices.push(a, d, c, a, c, b);
+    }
+  }
+
+  // Vertex index of the k-th vertex along each edge, in the order of LodEdgeSteps
+  const edges: Array<(k: number) => number> = [
+    k => k, // z = 0
+    k => CHUNK_SIZE * samples + k, // z = max
+    k => k * samples, // x = 0
+    k => k * samples + CHUNK_SIZE // x = max
+  ];
+
+  // Stitch the edges that meet coarser tiles. Tiles are aligned to their own size, so every
+  // sample of the coarser edge is also a vertex of this one, ratio vertices apart.
+  edges.forEach((edge, side) => {
+    const ratio = edgeSteps[side]! / step;
+    if (ratio <= 1) return;
+    for (let k = 0; k < samples; k++) {
+      const offset = k % ratio;
+      if (offset === 0) continue;
+      const before = positions[edge(k - offset) * 3 + 1]!;
+      const after = positions[edge(k - offset + ratio) * 3 + 1]!;
+      positions[edge(k) * 3 + 1] = before + (after - before) * offset / ratio;
+    }
+  });
+
+  // Skirts: a vertical strip hanging from each edge of the tile
+  const skirtDepth = step * SKIRT_DEPTH_PER_STEP;
+  for (const edge of edges) {
+    const first = positions.length / 3;
+    for (let k = 0; k < samples; k++) {
+      const top = edge(k);
+      positions.push(positions[top * 3]!, positions[top * 3 + 1]! - skirtDepth, positions[top * 3 + 2]!);
+      normals.push(normals[top * 3]!, normals[top * 3 + 1]!, normals[top * 3 + 2]!);
+      colors.push(colors[top * 3]!, colors[top * 3 + 1]!, colors[top * 3 + 2]!);
+    }
+    // The LOD material is double sided, so the winding of the skirts doesn't matter
+    for (let k = 0; k < CHUNK_SIZE; k++) {
+      indices.push(edge(k), edge(k + 1), first + k + 1, edge(k), first + k + 1, first + k);
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    colors: new Uint8Array(colors),
+    indices: new Uint32Array(indices),
+    groups: [{ start: 0, count: indices.length, materialIndex: 0 }]
+  };
+}
+
+// Vertex colours are linear while material colours are given in sRGB, so convert to match full chunks
+function pushLinearColor(colors: number[], hex: number): void {
+  for (const shift of [16, 8, 0]) {
+    const srgb = ((hex >> shift) & 0xff) / 255;
+    const linear = srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+    colors.push(Math.round(linear * 255));
+  }
+}
@@ -0,0 +1,377 @@
+// Turns chunk voxel data into merged BufferGeometry data (greedy meshing)
+// Only faces between a block and an open neighbour are emitted, and coplanar faces of the
+// same material, light and ambient occlusion are merged into larger quads. Light and ambient
+// occlusion are baked into the vertex colours. Shared by the chunk worker (initial generation)
+// and the main thread (rebuilding edited chunks), so it must stay free of THREE.js objects.
+// Each vertical section gets meshes of its own, so an edit only remeshes the section it is in.
+import { CHUNK_SIZE, MAX_HEIGHT, SECTION_COUNT, SECTION_HEIGHT, voxelIndex } from './terrain';
+import { BlockType, getFaceMaterialIndex, getWaterLevel, isSolidBlock, isTransparentBlock, isWaterBlock, MAX_WATER_LEVEL } from './blocks';
+import { FULL_SUNLIGHT, getBlockLight, getSunlight, LIGHT_BRIGHTNESS } from './lighting';
+import { getVoxel, isUniformSection, type VoxelSections } from './sections';
+
+// Raw geometry attributes for one mesh, ready to be uploaded into a THREE.BufferGeometry
+export interface MeshData {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Uint8Array; // RGB per vertex, normalised - light times ambient occlusion
+  indices: Uint32Array;
+  // One draw group per material, in index ranges
+  groups: Array<{ start: number, count: number, materialIndex: number }>;
+}
+
+// Meshes of a single chunk section: opaque terrain and the transparent water surface.
+// Positions are chunk-local, like those of a whole chunk.
+export interface ChunkMeshData {
+  solid: MeshData;
+  water: MeshData;
+}
+
+// Looks up a block outside the chunk, in chunk-local coordinates (x/z may be -1 or CHUNK_SIZE)
+export type NeighbourBlockLookup = (x: number, y: number, z: number) => BlockType;
+
+// Looks up the packed light of a voxel outside the chunk, in chunk-local coordinates
+export type NeighbourLightLookup = (x: number, y: number, z: number) => number;
+
+// Without neighbour data everything outside the chunk counts as air under the open sky
+const openBorder: NeighbourBlockLookup = () => BlockType.Air;
+const openSky: NeighbourLightLookup = () => FULL_SUNLIGHT;
+
+// Brightness per ambient occlusion value (0 = corner boxed in by solid blocks, 3 = open)
+const AO_CURVE = [0.5, 0.7, 0.85, 1];
+
+// How one kind of block is meshed. Faces with equal keys are merged; each key maps to a material
+// and to how much of the block's height it fills (1 for full blocks).
+interface FaceStyle {
+  // Key of the face between a block and its neighbour on the given axis and side, -1 for no face.
+  // blockAbove looks up the block over the current one, only when needed.
+  key(block: BlockType, neighbour: BlockType, axis: number, sign: number, blockAbove: () => BlockType): number;
+  material(key: number): number;
+  fill(key: number): number;
+  ambientOcclusion: boolean; // Darken corners next to solid blocks
+}
+
+// Solid faces show against open neighbours, and against transparent blocks of another kind
+const solidStyle: FaceStyle = {
+  key: (block, neighbour, axis, sign) =>
+    isSolidBlock(block) && (!isSolidBlock(neighbour) || (isTransparentBlock(neighbour) && neighbour !== block))
+      ? getFaceMaterialIndex(block, axis, sign)
+      : -1,
+  material: key => key,
+  fill: () => 1,
+  ambientOcclusion: true
+};
+
+// Water keys are the surface height step: the water level, or FULL_WATER_KEY under more water
+const FULL_WATER_KEY = MAX_WATER_LEVEL + 1;
+
+const waterStyle: FaceStyle = {
+  key: (block, neighbour, axis, sign, blockAbove) => {
+    if (!isWaterBlock(block)) return -1;
+
+    if (axis === 1) {
+      // Top faces show unless more water sits on top, bottom faces only over air
+      if (sign > 0 ? isWaterBlock(neighbour) : neighbour !== BlockType.Air) return -1;
+    } else if (neighbour !== BlockType.Air &&
+      !(isWaterBlock(neighbour) && getWaterLevel(neighbour) < getWaterLevel(block))) {
+      // Sides show against air, or against lower water so steps in the flow don't leave gaps
+      return -1;
+    }
+
+    return isWaterBlock(blockAbove()) ? FULL_WATER_KEY : getWaterLevel(block);
+  },
+  material: () => 0,
+  // Sources stop a little short of the block top so the surface sits below the surrounding ground
+  fill: key => key === FULL_WATER_KEY ? 1 : key / MAX_WATER_LEVEL * 0.9,
+  ambientOcclusion: false
+};
+
+// Vertex and index lists of one material while meshing
+interface QuadBuffer {
+  positions: number[];
+  normals: number[];
+  colors: number[];
+  indices: number[];
+}
+
+/**
+ * Builds the greedy-merged solid and water meshes of every section of a chunk
+ *
+ * @returns Meshes per section, null for sections with nothing to draw
+ */
+export function buildChunkMesh(
+  blocks: VoxelSections,
+  light: VoxelSections,
+  getNeighbourBlock: NeighbourBlockLookup = openBorder,
+  getNeighbourLight: NeighbourLightLookup = openSky
+): Array<ChunkMeshData | null> {
+  const meshes: Array<ChunkMeshData | null> = [];
+  for (let section = 0; section < SECTION_COUNT; section++) {
+    meshes.push(buildSectionMesh(blocks, light, section, getNeighbourBlock, getNeighbourLight));
+  }
+  return meshes;
+}
+
+/**
+ * Builds the greedy-merged solid and water meshes of one section of a chunk. All-air sections
+ * are skipped outright, and sections of a single block (buried rock, deep sea) only look at
+ * their outer layers - identical blocks never show faces to each other.
+ *
+ * @param blocks The chunk's blocks
+ * @param light The chunk's packed light levels
+ * @param getNeighbourBlock Lookup for blocks just across the chunk border
+ * @param getNeighbourLight Lookup for light just across the chunk border
+ * @returns The meshes, or null if the section has nothing to draw
+ */
+export function buildSectionMesh(
+  blocks: VoxelSections,
+  light: VoxelSections,
+  section: number,
+  getNeighbourBlock: NeighbourBlockLookup = openBorder,
+  getNeighbourLight: NeighbourLightLookup = openSky
+): ChunkMeshData | null {
+  const uniform = isUniformSection(blocks, section);
+  if (uniform && blocks.fill[section] === BlockType.Air) return null;
+
+  const blockAt = (x: number, y: number, z: number): BlockType => {
+    if (y < 0 || y >= MAX_HEIGHT) return BlockType.Air;
+    if (x < 0 || x >= CHUNK_SIZE || z < 0 || z >= CHUNK_SIZE) return getNeighbourBlock(x, y, z);
+    return getVoxel(blocks, voxelIndex(x, y, z)) as BlockType;
+  };
+
+  const lightAt = (x: number, y: number, z: number): number => {
+    if (y >= MAX_HEIGHT) return FULL_SUNLIGHT;
+    if (y < 0) return 0;
+    if (x < 0 || x >= CHUNK_SIZE || z < 0 || z >= CHUNK_SIZE) return getNeighbourLight(x, y, z);
+    return getVoxel(light, voxelIndex(x, y, z));
+  };
+
+  const solidBuffers = new Map<number, QuadBuffer>();
+  const waterBuffers = new Map<number, QuadBuffer>();
+
+  const lo = [0, section * SECTION_HEIGHT, 0];
+  const hi = [CHUNK_SIZE, Math.min((section + 1) * SECTION_HEIGHT, MAX_HEIGHT), CHUNK_SIZE];
+  greedyMesh(blockAt, lightAt, lo, hi, uniform, solidStyle, solidBuffers);
+  greedyMesh(blockAt, lightAt, lo, hi, uniform, waterStyle, waterBuffers);
+  if (solidBuffers.size === 0 && waterBuffers.size === 0) return null;
+
+  return {
+    solid: toMeshData(solidBuffers),
+    water: toMeshData(waterBuffers)
+  };
+}
+
+// Sweeps every axis in both directions, building a 2D mask of visible faces per slice
+// and merging equal neighbouring faces into rectangles. With outerOnly, only the slices on the
+// box's faces are swept.
+function greedyMesh(
+  blockAt: (x: number, y: number, z: number) => BlockType,
+  lightAt: (x: number, y: number, z: number) => number,
+  lo: number[],
+  hi: number[],
+  outerOnly: boolean,
+  style: FaceStyle,
+  buffers: Map<number, QuadBuffer>
+): void {
+  const pos = [0, 0, 0];
+
+  // Current block, read lazily by styles that care what sits on top of it
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  const blockAbove = () => blockAt(x, y + 1, z);
+
+  for (let axis = 0; axis < 3; axis++) {
+    const u = (axis + 1) % 3;
+    const v = (axis + 2) % 3;
+    const sizeU = hi[u]! - lo[u]!;
+    const sizeV = hi[v]! - lo[v]!;
+    const mask = new Int32Array(sizeU * sizeV);
+
+    for (const sign of [1, -1]) {
+      const outerSlice = sign > 0 ? hi[axis]! - 1 : lo[axis]!;
+      for (let slice = outerOnly ? outerSlice : lo[axis]!; slice < (outerOnly ? outerSlice + 1 : hi[axis]!); slice++) {
+        // Build the mask of visible faces on this slice: 0 = no face, otherwise
+        // (key + 1) << 12 | light << 8 | ambient occlusion of the four corners (2 bits each)
+        let n = 0;
+        for (let j = 0; j < sizeV; j++) {
+          for (let i = 0; i < sizeU; i++) {
+            pos[axis] = slice;
+            pos[u] = lo[u]! + i;
+            pos[v] = lo[v]! + j;
+            x = pos[0]!;
+            y = pos[1]!;
+            z = pos[2]!;
+            const block = blockAt(x, y, z);
+            pos[axis] = slice + sign;
+            const neighbour = blockAt(pos[0]!, pos[1]!, pos[2]!);
+            const key = style.key(block, neighbour, axis, sign, blockAbove);
+            mask[n++] = key < 0 ? 0 : ((key + 1) << 12) | faceShade(blockAt, lightAt, pos, u, v, style.ambientOcclusion);
+          }
+        }
+
+        // Merge runs of equal faces into rectangles
+        for (let j = 0; j < sizeV; j++) {
+          for (let i = 0; i < sizeU;) {
+            const m = mask[j * sizeU + i]!;
+            if (m === 0) {
+              i++;
+              continue;
+            }
+
+            // Grow along u, then along v while the whole row matches
+            let width = 1;
+            while (i + width < sizeU && mask[j * sizeU + i + width] === m) width++;
+
+            let height = 1;
+            grow: while (j + height < sizeV) {
+              for (let k = 0; k < width; k++) {
+                if (mask[(j + height) * sizeU + i + k] !== m) break grow;
+              }
+              height++;
+            }
+
+            const key = (m >> 12) - 1;
+            const materialIndex = style.material(key);
+            let buffer = buffers.get(materialIndex);
+            if (!buffer) {
+              buffer = { positions: [], normals: [], colors: [], indices: [] };
+              buffers.set(materialIndex, buffer);
+            }
+            emitQuad(buffer, axis, sign, slice, lo[u]! + i, lo[v]! + j, width, height, style.fill(key), m & 0xfff);
+
+            // Clear the merged faces
+            for (let h = 0; h < height; h++) {
+              mask.fill(0, (j + h) * sizeU + i, (j + h) * sizeU + i + width);
+            }
+            i += width;
+          }
+        }
+      }
+    }
+  }
+}
+
+// Light and ambient occlusion of a face, seen from the open voxel in front of it (pos).
+// Corners are in emitQuad order: (-u, -v), (+u, -v), (+u, +v), (-u, +v).
+function faceShade(
+  blockAt: (x: number, y: number, z: number) => BlockType,
+  lightAt: (x: number, y: number, z: number) => number,
+  pos: number[],
+  u: number,
+  v: number,
+  ambientOcclusion: boolean
+): number {
+  const packed = lightAt(pos[0]!, pos[1]!, pos[2]!);
+  const light = Math.max(getSunlight(packed), getBlockLight(packed));
+  if (!ambientOcclusion) return (light << 8) | 0xff;
+
+  // Unit steps along u and v
+  const ux = u === 0 ? 1 : 0, uy = u === 1 ? 1 : 0, uz = u === 2 ? 1 : 0;
+  const vx = v === 0 ? 1 : 0, vy = v === 1 ? 1 : 0, vz = v === 2 ? 1 : 0;
+  const px = pos[0]!, py = pos[1]!, pz = pos[2]!;
+
+  let ao = 0;
+  for (let c = 0; c < 4; c++) {
+    const du = c === 1 || c === 2 ? 1 : -1;
+    const dv = c >= 2 ? 1 : -1;
+    const side1 = isSolidBlock(blockAt(px + du * ux, py + du * uy, pz + du * uz)) ? 1 : 0;
+    const side2 = isSolidBlock(blockAt(px + dv * vx, py + dv * vy, pz + dv * vz)) ? 1 : 0;
+    const corner = isSolidBlock(blockAt(px + du * ux + dv * vx, py + du * uy + dv * vy, pz + du * uz + dv * vz)) ? 1 : 0;
+    const value = side1 && side2 ? 0 : 3 - (side1 + side2 + corner);
+    ao |= value << (c * 2);
+  }
+  return (light << 8) | ao;
+}
+
+// Adds one quad. Blocks are centred on integer coordinates, so faces sit at +-0.5.
+// fill is how much of its height the top block of the quad fills, lowering top faces and side tops.
+// shade packs the quad's light level and per-corner ambient occlusion (see faceShade).
+function emitQuad(
+  buffer: QuadBuffer,
+  axis: number,
+  sign: number,
+  slice: number,
+  startU: number,
+  startV: number,
+  width: number,
+  height: number,
+  fill: number,
+  shade: number
+): void {
+  const u = (axis + 1) % 3;
+  const v = (axis + 2) % 3;
+  const drop = 1 - fill;
+  const plane = axis === 1 && sign > 0 ? slice + 0.5 - drop : slice + sign * 0.5;
+  const u0 = startU - 0.5;
+  const u1 = startU + width - 0.5 - (u === 1 ? drop : 0);
+  const v0 = startV - 0.5;
+  const v1 = startV + height - 0.5 - (v === 1 ? drop : 0);
+
+  const base = buffer.positions.length / 3;
+  const corner = [0, 0, 0];
+  const normal = [0, 0, 0];
+  normal[axis] = sign;
+
+  const lightLevel = LIGHT_BRIGHTNESS[(shade >> 8) & 0xf]!;
+  const ao0 = shade & 3;
+  const ao1 = (shade >> 2) & 3;
+  const ao2 = (shade >> 4) & 3;
+  const ao3 = (shade >> 6) & 3;
+
+  const corners = [[u0, v0], [u1, v0], [u1, v1], [u0, v1]] as const;
+  for (let c = 0; c < 4; c++) {
+    const [cu, cv] = corners[c]!;
+    corner[axis] = plane;
+    corner[u] = cu;
+    corner[v] = cv;
+    buffer.positions.push(corner[0]!, corner[1]!, corner[2]!);
+    buffer.normals.push(normal[0]!, normal[1]!, normal[2]!);
+    const brightness = Math.round(lightLevel * AO_CURVE[(shade >> (c * 2)) & 3]! * 255);
+    buffer.colors.push(brightness, brightness, brightness);
+  }
+
+  // (axis, u, v) is right-handed, so the corners above wind counter-clockwise seen from +axis.
+  // Split along the diagonal that keeps ambient occlusion symmetric (a dark corner stays a corner).
+  const flip = ao0 + ao2 < ao1 + ao3;
+  if (sign > 0) {
+    if (flip) buffer.indices.push(base, base + 1, base + 3, base + 1, base + 2, base + 3);
+    else buffer.indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  } else {
+    if (flip) buffer.indices.push(base, base + 3, base + 1, base + 1, base + 3, base + 2);
+    else buffer.indices.push(base, base + 2, base + 1, base, base + 3, base + 2);
+  }
+}
+
+// Packs the per-material buffers into one set of typed arrays with a draw group per material
+function toMeshData(buffers: Map<number, QuadBuffer>): MeshData {
+  let vertexCount = 0;
+  let indexCount = 0;
+  for (const buffer of buffers.values()) {
+    vertexCount += buffer.positions.length / 3;
+    indexCount += buffer.indices.length;
+  }
+
+  const positions = new Float32Array(vertexCount * 3);
+  const normals = new Float32Array(vertexCount * 3);
+  const colors = new Uint8Array(vertexCount * 3);
+  const indices = new Uint32Array(indexCount);
+  const groups: MeshData['groups'] = [];
+
+  let vertexOffset = 0;
+  let indexOffset = 0;
+  const materialIndices = [...buffers.keys()].sort((a, b) => a - b);
+  for (const materialIndex of materialIndices) {
+    const buffer = buffers.get(materialIndex)!;
+    positions.set(buffer.positions, vertexOffset * 3);
+    normals.set(buffer.normals, vertexOffset * 3);
+    colors.set(buffer.colors, vertexOffset * 3);
+    for (let i = 0; i < buffer.indices.length; i++) {
+      indices[indexOffset + i] = buffer.indices[i]! + vertexOffset;
+    }
+    groups.push({ start: indexOffset, count: buffer.indices.length, materialIndex });
+    vertexOffset += buffer.positions.length / 3;
+    indexOffset += buffer.indices.length;
+  }
+
+  return { positions, normals, colors, indices, groups };
+}
@@ -1,7 +1,8 @@
 import * as THREE from 'three';
 import { scene } from '../renderer/renderer';
-import { createVillager, createWoodcutterVillager, Villager, WoodcutterVillager } from './villager';
+import { createVillager, createWoodcutterVillager, Villager, VillagerState, WoodcutterVillager } from './villager';
 import { HarvestableTree } from './special-objects';
+import type { Village } from './villages';
 
 // Global villager data
 const villagers: Villager[] = [];
@@ -23,33 +24,109 @@ interface TownHallResources {
 
 const townHallResources: TownHallResources[] = [];
 
+// Saved state of a single villager
+export interface VillagerSaveState {
+  kind: 'villager' | 'woodcutter';
+  x: number;
+  y: number;
+  z: number;
+  woodCarried: number;
+}
+
+// Saved state of a town: its wood total and villagers
+export interface TownSaveState {
+  townHallId: number;
+  wood: number;
+  villagers: VillagerSaveState[];
+}
+
+// Town states loaded from a save, applied when each town hall spawns its villagers
+const savedTownStates = new Map<number, TownSaveState>();
+
+/**
+ * Provides the town states of a loaded save. Must be called before the town halls are initialized.
+ */
+export function setSavedTownStates(states: TownSaveState[]): void {
+  savedTownStates.clear();
+  for (const state of states) {
+    savedTownStates.set(state.townHallId, state);
+  }
+}
+
+/**
+ * Captures the current state of every town for saving
+ */
+export function getTownSaveStates(): TownSaveState[] {
+  return townHallResources.map(({ townHallId, wood }) => ({
+    townHallId,
+    wood,
+    villagers: [
+      ...villagers
+        .filter(villager => villager.townHallId === townHallId)
+        .map(villager => ({
+          kind: 'villager' as const,
+          x: villager.position.x,
+          y: villager.position.y,
+          z: villager.position.z,
+          woodCarried: 0
+        })),
+      ...woodcutters
+        .filter(woodcutter => woodcutter.townHallId === townHallId)
+        .map(woodcutter => ({
+          kind: 'woodcutter' as const,
+          x: woodcutter.position.x,
+          y: woodcutter.position.y,
+          z: woodcutter.position.z,
+          woodCarried: woodcutter.woodCarried
+        }))
+    ]
+  }));
+}
+
 /**
  * Spawns villagers at a specific town hall location
  * 
  * @param position The town hall position
  * @param townHallId ID of the town hall these villagers belong to
+ * @param village The town hall's village - villagers live in its houses and woodcutters work
+ *   at its lumber yard. Without one everybody stays at the town hall.
  */
-export function spawnVillagersAtTownHall(position: { x: number, y: number, z: number }, townHallId: number): void {
+export function spawnVillagersAtTownHall(position: { x: number, y: number, z: number }, townHallId: number, village?: Village): void {
+  const savedState = savedTownStates.get(townHallId);
+  const savedVillagers = savedState?.villagers.filter(v => v.kind === 'villager') ?? [];
+  const savedWoodcutters = savedState?.villagers.filter(v => v.kind === 'woodcutter') ?? [];
+
   // Initialize resources for this town hall
   townHallResources.push({
     townHallId,
-    wood: 0
+    wood: savedState?.wood ?? 0
   });
   
-  // Spawn regular villagers around the town hall
+  const homes = village?.buildings.filter(building => building.role === 'home' && building.door) ?? [];
+  const lumberYard = village?.buildings.find(building => building.job === 'woodcutter');
+  
+  // Spawn regular villagers at their homes, shared out over the village's houses
   for (let i = 0; i < VILLAGERS_PER_TOWN_HALL; i++) {
+    const home = homes.length > 0 ? homes[i % homes.length]!.door! : position;
+
     // Create some variation in starting positions
     const offsetX = (Math.random() - 0.5) * 6; 
     const offsetZ = (Math.random() - 0.5) * 6;
     
-    // Create the villager at the town hall position plus offset
+    // Create the villager in front of its home plus offset - it wanders around there
     const villager = createVillager(
-      position.x + offsetX,
-      position.y,
-      position.z + offsetZ,
+      home.x + offsetX,
+      home.y,
+      home.z + offsetZ,
       townHallId
     );
     
+    // Put the villager back where it was when the world was saved
+    const saved = savedVillagers[i];
+    if (saved) {
+      villager.position.set(saved.x, saved.y, saved.z);
+    }
+    
     // Add the villager to the scene
     scene.add(villager);
     
@@ -57,20 +134,31 @@ export function spawnVillagersAtTownHall(position: { x: number, y: number, z: nu
     villagers.push(villager);
   }
   
-  // Spawn woodcutter villagers
+  // Spawn woodcutter villagers at the lumber yard, where they bring the wood they cut
+  const workplace = lumberYard?.door ?? { x: position.x, y: position.y, z: position.z - 2 }; // Or in front of the town hall
   for (let i = 0; i < WOODCUTTERS_PER_TOWN_HALL; i++) {
-    // Create some variation in starting positions, place them near the town hall entrance
+    // Create some variation in starting positions
     const offsetX = (Math.random() - 0.5) * 4; 
-    const offsetZ = (Math.random() - 0.5) * 4 - 2; // Slightly in front of town hall
+    const offsetZ = (Math.random() - 0.5) * 4;
     
-    // Create the woodcutter at the town hall position plus offset
+    // Create the woodcutter at the workplace plus offset
     const woodcutter = createWoodcutterVillager(
-      position.x + offsetX,
-      position.y,
-      position.z + offsetZ,
+      workplace.x + offsetX,
+      workplace.y,
+      workplace.z + offsetZ,
       townHallId
     );
     
+    // Restore the saved position and load - a woodcutter carrying wood heads home first
+    const saved = savedWoodcutters[i];
+    if (saved) {
+      woodcutter.position.set(saved.x, saved.y, saved.z);
+      woodcutter.woodCarried = saved.woodCarried;
+      if (saved.woodCarried > 0) {
+        woodcutter.state = VillagerState.RETURNING;
+      }
+    }
+    
     // Add the woodcutter to the scene
     scene.add(woodcutter);
     
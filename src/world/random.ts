@@ -0,0 +1,58 @@
+// Seeded random helpers shared by world generation
+// Everything that shapes the world must draw from these instead of Math.random()
+// so the same seed always produces the same chunks.
+
+/**
+ * Creates a deterministic PRNG (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Mixes a seed with any number of integer values (chunk coords, salts...)
+ * into a new 32-bit seed. Used to give every chunk its own random stream
+ * that does not depend on the order chunks are generated in.
+ */
+export function hashSeed(seed: number, ...values: number[]): number {
+  let h = seed >>> 0;
+  for (const value of values) {
+    h = Math.imul(h ^ (value | 0), 0x85EBCA6B);
+    h = (h ^ (h >>> 13)) >>> 0;
+    h = Math.imul(h, 0xC2B2AE35);
+    h = (h ^ (h >>> 16)) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * Turns a user supplied seed (number or any text) into a 32-bit seed
+ */
+export function parseSeed(input: string | number): number {
+  if (typeof input === 'number') return input >>> 0;
+
+  const trimmed = input.trim();
+  if (/^-?\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+
+  // FNV-1a hash for text seeds
+  let h = 0x811C9DC5;
+  for (let i = 0; i < trimmed.length; i++) {
+    h ^= trimmed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Picks a fresh random seed for new worlds
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
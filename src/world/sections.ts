@@ -0,0 +1,103 @@
+// Vertical chunk sections
+// A chunk's voxels are split into SECTION_COUNT sections of SECTION_HEIGHT layers. voxelIndex runs
+// y slowest, so each section is one contiguous run of indices. A section whose voxels all hold the
+// same value - open sky, solid rock deep down - keeps just that value and no array, and is only
+// given one once a voxel in it changes. Blocks and light are both stored this way.
+import { CHUNK_SIZE, CHUNK_VOLUME, SECTION_COUNT, SECTION_HEIGHT } from './terrain';
+
+// One byte per voxel of a chunk, by section
+export interface VoxelSections {
+  // Per section: its voxels (by voxelIndex minus the section's first index), or null if uniform
+  data: Array<Uint8Array | null>;
+  // Value of every voxel of each uniform section
+  fill: Uint8Array;
+}
+
+/**
+ * Number of voxels in a section - the top one may be cut short by MAX_HEIGHT
+ */
+export function getSectionVolume(section: number): number {
+  const layer = CHUNK_SIZE * CHUNK_SIZE;
+  return Math.min(SECTION_HEIGHT * layer, CHUNK_VOLUME - section * SECTION_HEIGHT * layer);
+}
+
+// Index of the first voxel of a section
+function getSectionStart(section: number): number {
+  return section * SECTION_HEIGHT * CHUNK_SIZE * CHUNK_SIZE;
+}
+
+export function getSectionForY(y: number): number {
+  return Math.floor(y / SECTION_HEIGHT);
+}
+
+/**
+ * Splits a whole chunk's voxels (laid out by voxelIndex) into sections, dropping the arrays of
+ * uniform ones. Mixed sections are copied, so the flat array can be reused or thrown away.
+ */
+export function packSections(voxels: Uint8Array): VoxelSections {
+  const sections: VoxelSections = { data: [], fill: new Uint8Array(SECTION_COUNT) };
+  for (let section = 0; section < SECTION_COUNT; section++) {
+    const start = getSectionStart(section);
+    const end = start + getSectionVolume(section);
+    const first = voxels[start]!;
+    let uniform = true;
+    for (let i = start + 1; i < end; i++) {
+      if (voxels[i] !== first) {
+        uniform = false;
+        break;
+      }
+    }
+    sections.fill[section] = first;
+    sections.data.push(uniform ? null : voxels.slice(start, end));
+  }
+  return sections;
+}
+
+/**
+ * Joins sections back into one array laid out by voxelIndex
+ */
+export function unpackSections(sections: VoxelSections): Uint8Array {
+  const voxels = new Uint8Array(CHUNK_VOLUME);
+  for (let section = 0; section < SECTION_COUNT; section++) {
+    const start = getSectionStart(section);
+    const data = sections.data[section];
+    if (data) voxels.set(data, start);
+    else voxels.fill(sections.fill[section]!, start, start + getSectionVolume(section));
+  }
+  return voxels;
+}
+
+export function isUniformSection(sections: VoxelSections, section: number): boolean {
+  return !sections.data[section];
+}
+
+export function getVoxel(sections: VoxelSections, index: number): number {
+  const section = Math.floor(index / (SECTION_HEIGHT * CHUNK_SIZE * CHUNK_SIZE));
+  const data = sections.data[section];
+  return data ? data[index - getSectionStart(section)]! : sections.fill[section]!;
+}
+
+/**
+ * Writes a voxel, giving its section an array first if it was uniform and the value differs
+ */
+export function setVoxel(sections: VoxelSections, index: number, value: number): void {
+  const section = Math.floor(index / (SECTION_HEIGHT * CHUNK_SIZE * CHUNK_SIZE));
+  let data = sections.data[section];
+  if (!data) {
+    if (sections.fill[section] === value) return;
+    data = new Uint8Array(getSectionVolume(section)).fill(sections.fill[section]!);
+    sections.data[section] = data;
+  }
+  data[index - getSectionStart(section)] = value;
+}
+
+/**
+ * Bytes held by the arrays of the mixed sections
+ */
+export function getSectionsByteLength(sections: VoxelSections): number {
+  let bytes = sections.fill.byteLength;
+  for (const data of sections.data) {
+    if (data) bytes += data.byteLength;
+  }
+  return bytes;
+}
@@ -0,0 +1,83 @@
+// Shared GPU resources
+// Geometries, materials and textures that many chunks draw with are created once and reference
+// counted: every object that uses one acquires it, and it is only disposed once the last of them
+// is released. Anything not acquired here belongs to the single object using it and is disposed
+// along with that object.
+import * as THREE from 'three';
+
+type Resource = THREE.BufferGeometry | THREE.Material | THREE.Texture;
+
+interface SharedResource {
+  resource: Resource;
+  refs: number;
+}
+
+const sharedResources = new Map<string, SharedResource>();
+// Which key each shared resource is registered under
+const resourceKeys = new Map<Resource, string>();
+
+/**
+ * Takes a reference to the shared resource registered under key, creating it on first use
+ */
+export function acquireSharedResource<T extends Resource>(key: string, create: () => T): T {
+  let shared = sharedResources.get(key);
+  if (!shared) {
+    shared = { resource: create(), refs: 0 };
+    sharedResources.set(key, shared);
+    resourceKeys.set(shared.resource, key);
+  }
+  shared.refs++;
+  return shared.resource as T;
+}
+
+/**
+ * Drops a reference to a shared resource, disposing it when it was the last one. Resources that
+ * aren't shared are disposed right away.
+ */
+export function releaseResource(resource: Resource): void {
+  const key = resourceKeys.get(resource);
+  const shared = key !== undefined ? sharedResources.get(key) : undefined;
+  if (!shared) {
+    resource.dispose();
+    return;
+  }
+
+  shared.refs--;
+  if (shared.refs > 0) return;
+  sharedResources.delete(key!);
+  resourceKeys.delete(resource);
+  resource.dispose();
+}
+
+export function isSharedResource(resource: Resource): boolean {
+  return resourceKeys.has(resource);
+}
+
+/**
+ * Releases the geometry, materials and textures of every mesh and sprite under root
+ */
+export function releaseObjectResources(root: THREE.Object3D): void {
+  root.traverse(object => {
+    if (!(object instanceof THREE.Mesh) && !(object instanceof THREE.Sprite)) return;
+
+    // Sprites share one quad geometry inside three.js - it isn't ours to dispose
+    if (object instanceof THREE.Mesh) releaseResource(object.geometry);
+
+    const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+    for (const material of materials) {
+      const map = (material as THREE.Material & { map?: THREE.Texture | null }).map;
+      // A shared material keeps its texture until the material itself goes
+      if (map && !isSharedResource(material)) releaseResource(map);
+      releaseResource(material);
+    }
+  });
+}
+
+/**
+ * Number of shared resources alive and the references held to them, for debugging leaks
+ */
+export function getSharedResourceStats(): { resources: number, refs: number } {
+  let refs = 0;
+  for (const shared of sharedResources.values()) refs += shared.refs;
+  return { resources: sharedResources.size, refs };
+}
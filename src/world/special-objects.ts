@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { acquireSharedResource, releaseObjectResources } from './shared-resources';
 
 // Interface for harvestable trees with wood resources
 export interface HarvestableTree extends THREE.Group {
@@ -74,19 +75,19 @@ export function createTreeFromData(x: number, y: number, z: number): THREE.Group
   // Set the tree's position directly at creation
   tree.position.set(x, y, z);
   
-  // Trunk
-  const trunkMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 });
+  // Trunk - geometry and materials are shared by every tree, harvesting only moves and scales the meshes
+  const trunkMaterial = acquireSharedResource('tree:trunk-material', () => new THREE.MeshLambertMaterial({ color: 0x8B4513 }));
   const trunk = new THREE.Mesh(
-    new THREE.BoxGeometry(0.6, 4, 0.6),
+    acquireSharedResource('tree:trunk-geometry', () => new THREE.BoxGeometry(0.6, 4, 0.6)),
     trunkMaterial
   );
   trunk.position.set(0, 2, 0); // Position relative to parent
   tree.add(trunk);
   
   // Leaves
-  const leavesMaterial = new THREE.MeshLambertMaterial({ color: 0x2d7d32 });
+  const leavesMaterial = acquireSharedResource('tree:leaves-material', () => new THREE.MeshLambertMaterial({ color: 0x2d7d32 }));
   const leaves = new THREE.Mesh(
-    new THREE.SphereGeometry(2, 8, 8),
+    acquireSharedResource('tree:leaves-geometry', () => new THREE.SphereGeometry(2, 8, 8)),
     leavesMaterial
   );
   leaves.position.set(0, 5, 0); // Position relative to parent
@@ -107,14 +108,14 @@ export function createTreeFromData(x: number, y: number, z: number): THREE.Group
   tree.woodLabel = woodLabel;
   
   // Create highlight effect that will be visible when tree is being harvested
-  const highlightGeometry = new THREE.SphereGeometry(2.3, 12, 12);
-  const highlightMaterial = new THREE.MeshBasicMaterial({ 
+  const highlightGeometry = acquireSharedResource('tree:highlight-geometry', () => new THREE.SphereGeometry(2.3, 12, 12));
+  const highlightMaterial = acquireSharedResource('tree:highlight-material', () => new THREE.MeshBasicMaterial({ 
     color: 0x90EE90, // Light green color
     transparent: true,
     opacity: 0.3,
     depthWrite: false, // Don't write to depth buffer
     side: THREE.DoubleSide
-  });
+  }));
   const highlight = new THREE.Mesh(highlightGeometry, highlightMaterial);
   highlight.position.set(0, 5, 0); // Position around leaves
   highlight.visible = false; // Initially hidden
@@ -223,8 +224,9 @@ export function createTreeFromData(x: number, y: number, z: number): THREE.Group
   // Update the wood label
   tree.updateWoodLabel = function() {
     if (this.woodLabel) {
-      // Remove old label
+      // Remove old label, its texture and material belong to it alone
       this.remove(this.woodLabel);
+      releaseObjectResources(this.woodLabel);
       
       // Create new label with updated values
       const newLabel = createWoodLabel(this.woodRemaining, this.maxWood);
@@ -259,119 +261,3 @@ export function createTreeFromData(x: number, y: number, z: number): THREE.Group
   
   return tree;
 }
-
-/**
- * Creates a house object from position data
- */
-export function createHouseFromData(x: number, y: number, z: number): THREE.Group {
-  const house = new THREE.Group();
-  
-  // Set the house's position directly
-  house.position.set(x, y, z);
-  
-  // Base - position relative to parent
-  const base = new THREE.Mesh(
-    new THREE.BoxGeometry(4, 3, 4),
-    new THREE.MeshLambertMaterial({ color: 0x8B4513 })
-  );
-  base.position.set(0, 1.5, 0);
-  house.add(base);
-  
-  // Roof - position relative to parent
-  const roof = new THREE.Mesh(
-    new THREE.ConeGeometry(3, 2, 4),
-    new THREE.MeshLambertMaterial({ color: 0xff0000 })
-  );
-  roof.position.set(0, 4, 0);
-  house.add(roof);
-  
-  // Add house type to userData
-  house.userData = {
-    type: 'house',
-    position: new THREE.Vector3(x, y, z)
-  };
-  
-  return house;
-}
-
-/**
- * Creates a town hall object from position data
- * Town halls are larger and more elaborate than regular houses
- */
-export function createTownHallFromData(x: number, y: number, z: number): THREE.Group {
-  const townHall = new THREE.Group();
-  
-  // Set the town hall's position directly
-  townHall.position.set(x, y, z);
-  
-  // Main building - larger than a regular house (position relative to parent)
-  const mainBuildingMaterial = new THREE.MeshLambertMaterial({ color: 0x9c7b46 }); // Slightly different color than houses
-  const mainBuilding = new THREE.Mesh(
-    new THREE.BoxGeometry(10, 6, 10),
-    mainBuildingMaterial
-  );
-  mainBuilding.position.set(0, 3, 0);
-  townHall.add(mainBuilding);
-  
-  // Roof - pyramid shape (position relative to parent)
-  const roofMaterial = new THREE.MeshLambertMaterial({ color: 0x0076c0 }); // Blue roof to distinguish town halls
-  const roof = new THREE.Mesh(
-    new THREE.ConeGeometry(8, 4, 4),
-    roofMaterial
-  );
-  roof.position.set(0, 8, 0);
-  townHall.add(roof);
-  
-  // Clock tower (position relative to parent)
-  const towerMaterial = new THREE.MeshLambertMaterial({ color: 0xd4d4d4 });
-  const tower = new THREE.Mesh(
-    new THREE.BoxGeometry(2, 5, 2),
-    towerMaterial
-  );
-  tower.position.set(0, 12.5, 0);
-  townHall.add(tower);
-  
-  // Tower roof (position relative to parent)
-  const towerRoof = new THREE.Mesh(
-    new THREE.ConeGeometry(1.5, 2, 4),
-    roofMaterial
-  );
-  towerRoof.position.set(0, 16, 0);
-  townHall.add(towerRoof);
-  
-  // Entrance (position relative to parent)
-  const entranceMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 });
-  const entrance = new THREE.Mesh(
-    new THREE.BoxGeometry(4, 3, 1),
-    entranceMaterial
-  );
-  entrance.position.set(0, 1.5, -5);
-  townHall.add(entrance);
-  
-  // Make it prominent with a flag (position relative to parent)
-  const flagPoleMaterial = new THREE.MeshLambertMaterial({ color: 0x8b8b8b });
-  const flagPole = new THREE.Mesh(
-    new THREE.CylinderGeometry(0.1, 0.1, 3, 8),
-    flagPoleMaterial
-  );
-  flagPole.position.set(0, 18, 0);
-  townHall.add(flagPole);
-  
-  // Flag (position relative to parent)
-  const flagMaterial = new THREE.MeshLambertMaterial({ color: 0xff0000 });
-  const flag = new THREE.Mesh(
-    new THREE.BoxGeometry(1, 0.8, 0.05),
-    flagMaterial
-  );
-  flag.position.set(0.5, 17.5, 0);
-  townHall.add(flag);
-  
-  // Add town hall type to userData
-  townHall.userData = {
-    type: 'townHall',
-    id: Date.now(), // Generate a unique ID for the town hall
-    position: new THREE.Vector3(x, y, z)
-  };
-  
-  return townHall;
-}
\ No newline at end of file
@@ -0,0 +1,204 @@
+// Structure placement
+// Decides where structure templates go and stamps them into chunks during generation. Like the
+// tunnels in caves.ts, a structure belongs to the chunk it was rolled in and everything about it
+// (template, rotation, position, floor height) comes from that chunk's seed and the height noise,
+// so every chunk it overlaps can replay it and build its own part - whichever is generated first.
+// Town halls don't roll: they are planned with the rest of their village (see villages.ts).
+// In a wrapping world the structures near an edge are built again past the opposite one, so they
+// carry on across the seam.
+import { createRandom, hashSeed } from './random';
+import { BlockType, isSolidBlock } from './blocks';
+import { CHUNK_SIZE, MAX_HEIGHT, WATER_LEVEL, voxelIndex, type WorldWrap } from './terrain';
+import type { BiomeDefinition } from './biomes';
+import { getStructureTemplate, getStructureTemplates, getTemplateBlock, KEEP_TERRAIN } from './structure-templates';
+import { getVillages, rectsOverlap } from './villages';
+
+const STRUCTURE_SALT = 300;
+
+// How far a terrace reaches out from a template's footprint, in blocks
+export const TERRACE_MARGIN = 4;
+
+// A structure placed in the world
+export interface StructurePlacement {
+  template: string;
+  // Quarter turns, see getStructureTemplate
+  rotation: number;
+  // World position of the template's lowest x/z corner and of its floor
+  x: number;
+  y: number;
+  z: number;
+}
+
+// What placement needs to know about the terrain, from terrain.ts
+export interface StructureTerrain {
+  seed: number;
+  getHeight: (x: number, z: number) => number;
+  getBiome: (x: number, z: number) => BiomeDefinition;
+  // Null unless the world wraps
+  wrap: WorldWrap | null;
+}
+
+/**
+ * Floor height for a template centred on (x, z): the ground there, kept above the sea
+ */
+export function getStructureFloorY(x: number, z: number, getHeight: (x: number, z: number) => number): number {
+  return Math.min(Math.max(getHeight(x, z), WATER_LEVEL + 1), MAX_HEIGHT - 1);
+}
+
+// The structure rolled in a chunk, if any
+function rollStructure(cx: number, cz: number, terrain: StructureTerrain): StructurePlacement | null {
+  const random = createRandom(hashSeed(terrain.seed, STRUCTURE_SALT, cx, cz));
+  const centerX = cx * CHUNK_SIZE + Math.floor(random() * CHUNK_SIZE);
+  const centerZ = cz * CHUNK_SIZE + Math.floor(random() * CHUNK_SIZE);
+  const rotation = Math.floor(random() * 4);
+  const roll = random();
+
+  const biome = terrain.getBiome(centerX, centerZ);
+  let chance = 0;
+  for (const spawn of biome.structures) {
+    chance += spawn.chance;
+    if (roll >= chance) continue;
+
+    const template = getStructureTemplate(spawn.template, rotation);
+    if (!template) return null;
+    if (terrain.getHeight(centerX, centerZ) <= WATER_LEVEL) return null;
+
+    const placement = {
+      template: spawn.template,
+      rotation,
+      x: centerX - Math.floor(template.width / 2),
+      y: getStructureFloorY(centerX, centerZ, terrain.getHeight),
+      z: centerZ - Math.floor(template.depth / 2)
+    };
+    // Villages keep their ground to themselves
+    const area = {
+      minX: placement.x - TERRACE_MARGIN,
+      minZ: placement.z - TERRACE_MARGIN,
+      maxX: placement.x + template.width - 1 + TERRACE_MARGIN,
+      maxZ: placement.z + template.depth - 1 + TERRACE_MARGIN
+    };
+    return getVillages(terrain).some(village => rectsOverlap(village.bounds, area)) ? null : placement;
+  }
+  return null;
+}
+
+/**
+ * How far the copies of a wrapping world are moved from the world itself along each axis, the world
+ * included - just [0] unless it wraps
+ */
+export function getWrapOffsets(terrain: StructureTerrain): number[] {
+  return terrain.wrap ? [-terrain.wrap.size, 0, terrain.wrap.size] : [0];
+}
+
+// The structure rolled in a chunk, which past a wrapping world's edge is the structure of the
+// chunk it stands for, moved across
+function rollWrappedStructure(cx: number, cz: number, terrain: StructureTerrain): StructurePlacement | null {
+  if (!terrain.wrap) return rollStructure(cx, cz, terrain);
+
+  const min = terrain.wrap.min / CHUNK_SIZE;
+  const size = terrain.wrap.size / CHUNK_SIZE;
+  const homeX = min + ((cx - min) % size + size) % size;
+  const homeZ = min + ((cz - min) % size + size) % size;
+  const placement = rollStructure(homeX, homeZ, terrain);
+  if (!placement) return null;
+  return { ...placement, x: placement.x + (cx - homeX) * CHUNK_SIZE, z: placement.z + (cz - homeZ) * CHUNK_SIZE };
+}
+
+/**
+ * Every structure that reaches into a chunk (terrace included), in the order they are built
+ */
+export function getStructuresAround(cx: number, cz: number, terrain: StructureTerrain): StructurePlacement[] {
+  const placements: StructurePlacement[] = [];
+  const largest = Math.max(0, ...getStructureTemplates().map(template => Math.max(template.width, template.depth)));
+  const reach = Math.ceil((largest + TERRACE_MARGIN) / CHUNK_SIZE);
+
+  for (let ox = cx - reach; ox <= cx + reach; ox++) {
+    for (let oz = cz - reach; oz <= cz + reach; oz++) {
+      const placement = rollWrappedStructure(ox, oz, terrain);
+      if (placement && reachesChunk(placement, cx, cz)) placements.push(placement);
+    }
+  }
+
+  // Villages last, so nothing is built over them
+  const offsets = getWrapOffsets(terrain);
+  for (const village of getVillages(terrain)) {
+    for (const { placement } of village.buildings) {
+      for (const offsetX of offsets) {
+        for (const offsetZ of offsets) {
+          const copy = { ...placement, x: placement.x + offsetX, z: placement.z + offsetZ };
+          if (reachesChunk(copy, cx, cz)) placements.push(copy);
+        }
+      }
+    }
+  }
+  return placements;
+}
+
+function reachesChunk(placement: StructurePlacement, cx: number, cz: number): boolean {
+  const template = getStructureTemplate(placement.template, placement.rotation)!;
+  const margin = template.foundation === 'terrace' ? TERRACE_MARGIN : 0;
+  const minX = cx * CHUNK_SIZE;
+  const minZ = cz * CHUNK_SIZE;
+  return placement.x - margin < minX + CHUNK_SIZE && placement.x + template.width + margin > minX &&
+    placement.z - margin < minZ + CHUNK_SIZE && placement.z + template.depth + margin > minZ;
+}
+
+/**
+ * Levels the ground under the structures and builds the parts of them inside the chunk
+ *
+ * @param covered Marked with every column a structure or its terrace covers (z * CHUNK_SIZE + x)
+ */
+export function stampStructures(blocks: Uint8Array, cx: number, cz: number, placements: StructurePlacement[], covered: Uint8Array): void {
+  const minX = cx * CHUNK_SIZE;
+  const minZ = cz * CHUNK_SIZE;
+
+  for (const placement of placements) {
+    const template = getStructureTemplate(placement.template, placement.rotation);
+    if (!template) continue;
+    const margin = template.foundation === 'terrace' ? TERRACE_MARGIN : 0;
+    const groundY = placement.y - 1; // Top of the levelled ground
+
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        const tx = minX + x - placement.x;
+        const tz = minZ + z - placement.z;
+        // Blocks outside the footprint, 0 inside it
+        const distance = Math.max(0, -tx, tx - template.width + 1, -tz, tz - template.depth + 1);
+        if (distance > margin) continue;
+
+        covered[z * CHUNK_SIZE + x] = 1;
+        levelColumn(blocks, x, z, groundY - distance, groundY + distance);
+
+        if (distance > 0) continue;
+        for (let ty = 0; ty < template.height; ty++) {
+          const y = placement.y - template.floorOffset + ty;
+          const block = getTemplateBlock(template, tx, ty, tz);
+          if (block === KEEP_TERRAIN || y < 0 || y >= MAX_HEIGHT) continue;
+          blocks[voxelIndex(x, y, z)] = block;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Fills or cuts a column so its highest solid block ends up between minTop and maxTop. The old
+ * surface block stays on top, with dirt below it where the ground was raised.
+ */
+export function levelColumn(blocks: Uint8Array, x: number, z: number, minTop: number, maxTop: number): void {
+  let top = MAX_HEIGHT - 1;
+  while (top >= 0 && !isSolidBlock(blocks[voxelIndex(x, top, z)] as BlockType)) top--;
+  const surface = top >= 0 ? blocks[voxelIndex(x, top, z)]! : BlockType.Dirt;
+
+  if (top > maxTop) {
+    for (let y = Math.max(maxTop + 1, 0); y <= top; y++) {
+      blocks[voxelIndex(x, y, z)] = BlockType.Air;
+    }
+    if (maxTop >= 0) blocks[voxelIndex(x, maxTop, z)] = surface;
+  } else if (top < minTop) {
+    for (let y = Math.max(top + 1, 0); y < Math.min(minTop, MAX_HEIGHT); y++) {
+      blocks[voxelIndex(x, y, z)] = BlockType.Dirt;
+    }
+    if (minTop < MAX_HEIGHT) blocks[voxelIndex(x, minTop, z)] = surface;
+  }
+}
@@ -0,0 +1,338 @@
+// Structure templates
+// A template is a box of blocks - a house, a town hall - that world generation stamps into the
+// terrain, so buildings are voxels like everything else and can be dug through and rebuilt.
+// Templates are plain data: written as JSON (layers of text rows, see StructureTemplateJson) or
+// imported from MagicaVoxel .vox files, and kept in a registry like the biomes. Every template
+// is stored in all four rotations about the vertical axis.
+// Shared by the main thread and the chunk workers, so it must stay free of THREE.js objects.
+import { BlockType, getBlockByName, getBlockColor, getBlocks } from './blocks';
+
+// Template cells that leave the terrain as it is (e.g. around the corners of a round tower)
+export const KEEP_TERRAIN = 255;
+
+// How the ground under a template is prepared:
+// flatten - a level pad exactly under the footprint, filled up or cut down to the floor
+// terrace - the pad plus a margin that steps back down (or up) to the natural terrain
+export type FoundationStyle = 'flatten' | 'terrace';
+
+export interface StructureTemplate {
+  id: string;
+  // Size along x, y and z
+  width: number;
+  height: number;
+  depth: number;
+  // BlockType (or KEEP_TERRAIN) per cell at (y * depth + z) * width + x
+  blocks: Uint8Array;
+  foundation: FoundationStyle;
+  // How many cells of the template are below its floor (cellars, foundations). The floor is
+  // the layer at this y, which sits on the levelled ground.
+  floorOffset: number;
+  // The column just outside the door (so one step outside the footprint), if there is a door
+  entrance?: { x: number, z: number };
+}
+
+/**
+ * JSON template format. Layers go from the bottom up; each layer is a list of rows along z and
+ * each row has one character per block along x. The palette maps characters to registered block names
+ * or null for "keep the terrain". ' ' keeps the terrain and '.' is air unless the palette says otherwise.
+ *
+ *   { "id": "hut", "palette": { "#": "Planks", "^": "RoofTile" },
+ *     "layers": [["###", "#.#", "###"], ["^^^", "^^^", "^^^"]] }
+ */
+export interface StructureTemplateJson {
+  id: string;
+  foundation?: FoundationStyle;
+  floorOffset?: number;
+  entrance?: { x: number, z: number };
+  palette: Record<string, string | null>;
+  layers: string[][];
+}
+
+export interface VoxImportOptions {
+  foundation?: FoundationStyle;
+  floorOffset?: number;
+  entrance?: { x: number, z: number };
+  // Block per .vox palette index (1-255). Indices not listed get the block closest in colour.
+  blocks?: Record<number, BlockType>;
+  // What empty cells of the model become - air clears the terrain inside the model's box
+  emptyCells?: 'air' | 'keep';
+}
+
+// Every registered template, in its four rotations (index = quarter turns clockwise seen from above)
+const templates = new Map<string, StructureTemplate[]>();
+
+/**
+ * Adds a template to the registry. Ids must be unique.
+ */
+export function registerStructureTemplate(template: StructureTemplate): void {
+  if (templates.has(template.id)) {
+    throw new Error(`Structure template "${template.id}" is already registered`);
+  }
+  const rotations = [template];
+  for (let i = 1; i < 4; i++) {
+    rotations.push(rotateTemplate(rotations[i - 1]!));
+  }
+  templates.set(template.id, rotations);
+}
+
+/**
+ * Replaces the whole registry, e.g. with the templates the main thread sent a chunk worker
+ */
+export function setStructureTemplates(definitions: readonly StructureTemplate[]): void {
+  templates.clear();
+  for (const template of definitions) {
+    registerStructureTemplate(template);
+  }
+}
+
+/**
+ * Returns every registered template, unrotated, in registration order
+ */
+export function getStructureTemplates(): StructureTemplate[] {
+  return [...templates.values()].map(rotations => rotations[0]!);
+}
+
+/**
+ * Looks up a template by id, turned the given number of quarter turns clockwise
+ */
+export function getStructureTemplate(id: string, rotation = 0): StructureTemplate | undefined {
+  return templates.get(id)?.[((rotation % 4) + 4) % 4];
+}
+
+export function getTemplateBlock(template: StructureTemplate, x: number, y: number, z: number): number {
+  return template.blocks[(y * template.depth + z) * template.width + x]!;
+}
+
+/**
+ * Builds a template from the JSON format
+ */
+export function parseJsonTemplate(json: StructureTemplateJson): StructureTemplate {
+  const palette: Record<string, number> = { ' ': KEEP_TERRAIN, '.': BlockType.Air };
+  for (const [symbol, name] of Object.entries(json.palette)) {
+    if (name === null) {
+      palette[symbol] = KEEP_TERRAIN;
+      continue;
+    }
+    const block = getBlockByName(name);
+    if (!block) {
+      throw new Error(`Structure template "${json.id}": unknown block "${name}" for "${symbol}"`);
+    }
+    palette[symbol] = block.id;
+  }
+
+  const height = json.layers.length;
+  const depth = Math.max(0, ...json.layers.map(layer => layer.length));
+  const width = Math.max(0, ...json.layers.flatMap(layer => layer.map(row => row.length)));
+  if (width === 0 || depth === 0 || height === 0) {
+    throw new Error(`Structure template "${json.id}" is empty`);
+  }
+
+  // Short rows and layers are padded with "keep the terrain"
+  const blocks = new Uint8Array(width * height * depth).fill(KEEP_TERRAIN);
+  json.layers.forEach((layer, y) => {
+    layer.forEach((row, z) => {
+      for (let x = 0; x < row.length; x++) {
+        const block = palette[row[x]!];
+        if (block === undefined) {
+          throw new Error(`Structure template "${json.id}": "${row[x]}" is not in the palette`);
+        }
+        blocks[(y * depth + z) * width + x] = block;
+      }
+    });
+  });
+
+  return {
+    id: json.id,
+    width,
+    height,
+    depth,
+    blocks,
+    foundation: json.foundation ?? 'flatten',
+    floorOffset: json.floorOffset ?? 0,
+    entrance: json.entrance
+  };
+}
+
+/**
+ * Builds a template from a MagicaVoxel .vox file (the first model in it). MagicaVoxel's z axis
+ * points up, so its y becomes our z.
+ */
+export function parseVoxTemplate(id: string, data: Uint8Array, options: VoxImportOptions = {}): StructureTemplate {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const readId = (offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+  if (data.length < 8 || readId(0) !== 'VOX ') {
+    throw new Error(`Structure template "${id}": not a .vox file`);
+  }
+
+  let size: [number, number, number] | null = null;
+  let voxels: Uint8Array | null = null;
+  let colors: Uint8Array | null = null;
+
+  // Chunks are an id, content size and children size followed by the content. MAIN holds the
+  // rest as its children, so just walk every chunk in order.
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const chunkId = readId(offset);
+    const contentSize = view.getInt32(offset + 4, true);
+    const content = offset + 12;
+    if (chunkId === 'SIZE' && !size) {
+      size = [view.getInt32(content, true), view.getInt32(content + 4, true), view.getInt32(content + 8, true)];
+    } else if (chunkId === 'XYZI' && !voxels) {
+      const count = view.getInt32(content, true);
+      voxels = data.subarray(content + 4, content + 4 + count * 4);
+    } else if (chunkId === 'RGBA') {
+      colors = data.subarray(content, content + 256 * 4);
+    }
+    offset = chunkId === 'MAIN' ? content + contentSize : content + contentSize + view.getInt32(offset + 8, true);
+  }
+
+  if (!size || !voxels) {
+    throw new Error(`Structure template "${id}": .vox file has no model`);
+  }
+
+  const [width, depth, height] = size;
+  const blocks = new Uint8Array(width * height * depth).fill(options.emptyCells === 'keep' ? KEEP_TERRAIN : BlockType.Air);
+  const blockForIndex = new Map<number, BlockType>();
+
+  for (let i = 0; i < voxels.length; i += 4) {
+    const x = voxels[i]!;
+    const z = voxels[i + 1]!;
+    const y = voxels[i + 2]!;
+    const colorIndex = voxels[i + 3]!;
+
+    let block = options.blocks?.[colorIndex] ?? blockForIndex.get(colorIndex);
+    if (block === undefined) {
+      if (!colors) {
+        throw new Error(`Structure template "${id}": .vox file has no palette - pass blocks for colour index ${colorIndex}`);
+      }
+      // Palette entry i holds the colour of index i + 1
+      const base = (colorIndex - 1) * 4;
+      block = closestBlock(colors[base]!, colors[base + 1]!, colors[base + 2]!);
+      blockForIndex.set(colorIndex, block);
+    }
+
+    if (x < width && y < height && z < depth) {
+      blocks[(y * depth + z) * width + x] = block;
+    }
+  }
+
+  return {
+    id,
+    width,
+    height,
+    depth,
+    blocks,
+    foundation: options.foundation ?? 'flatten',
+    floorOffset: options.floorOffset ?? 0,
+    entrance: options.entrance
+  };
+}
+
+// The solid block whose colour is nearest to an RGB colour
+function closestBlock(r: number, g: number, b: number): BlockType {
+  let best = BlockType.Rock;
+  let bestDistance = Infinity;
+  for (const { id: block, solid } of getBlocks()) {
+    if (!solid) continue;
+    const color = getBlockColor(block);
+    const distance = (((color >> 16) & 0xff) - r) ** 2 + (((color >> 8) & 0xff) - g) ** 2 + ((color & 0xff) - b) ** 2;
+    if (distance < bestDistance) {
+      best = block;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// A quarter turn clockwise seen from above: +x turns into +z
+function rotateTemplate(template: StructureTemplate): StructureTemplate {
+  const { width, height, depth } = template;
+  const blocks = new Uint8Array(template.blocks.length);
+  for (let y = 0; y < height; y++) {
+    for (let z = 0; z < depth; z++) {
+      for (let x = 0; x < width; x++) {
+        // (x, z) lands on (depth - 1 - z, x) in a template depth wide and width deep
+        const rotatedIndex = (y * width + x) * depth + (depth - 1 - z);
+        blocks[rotatedIndex] = getTemplateBlock(template, x, y, z);
+      }
+    }
+  }
+  // The entrance is outside the footprint, but turns the same way
+  const entrance = template.entrance && { x: depth - 1 - template.entrance.z, z: template.entrance.x };
+  return { ...template, width: depth, depth: width, blocks, entrance };
+}
+
+// Default templates
+// Doors face -z before rotation. Layers repeating a row are spelled out with repeat().
+const repeat = (count: number, row: string) => Array<string>(count).fill(row);
+
+registerStructureTemplate(parseJsonTemplate({
+  id: 'house',
+  foundation: 'terrace',
+  floorOffset: 1,
+  entrance: { x: 3, z: -1 },
+  palette: { 'c': 'Cobblestone', '#': 'Planks', '^': 'RoofTile', 'L': 'Lamp' },
+  layers: [
+    repeat(7, 'ccccccc'), // Foundation
+    repeat(7, '#######'), // Floor
+    ['###.###', ...repeat(5, '#.....#'), '#######'], // Walls and door
+    ['###.###', '#.....#', '#.....#', '.......', '#.....#', '#.....#', '#######'], // Windows at the sides
+    ['#######', ...repeat(5, '#.....#'), '#######'],
+    ['^^^^^^^', '^^^^^^^', '^^^^^^^', '^^^L^^^', '^^^^^^^', '^^^^^^^', '^^^^^^^'], // Ceiling with a lamp
+    ['       ', ...repeat(5, ' ^^^^^ '), '       '],
+    ['       ', '       ', ...repeat(3, '  ^^^  '), '       ', '       ']
+  ]
+}));
+
+registerStructureTemplate(parseJsonTemplate({
+  id: 'town-hall',
+  foundation: 'terrace',
+  floorOffset: 1,
+  entrance: { x: 6, z: -1 },
+  palette: { 'c': 'Cobblestone', '#': 'Planks', '^': 'RoofTile', 'L': 'Lamp' },
+  layers: [
+    repeat(13, 'ccccccccccccc'), // Foundation
+    repeat(13, '#############'), // Floor
+    ['ccccc...ccccc', ...repeat(11, 'c...........c'), 'ccccccccccccc'], // Walls and a wide door
+    ['ccccc...ccccc', ...repeat(3, 'c...........c'), '.............', ...repeat(3, 'c...........c'), '.............', ...repeat(3, 'c...........c'), 'ccccccccccccc'],
+    ['ccccccccccccc', ...repeat(11, 'c...........c'), 'ccccccccccccc'],
+    ['ccccccccccccc', ...repeat(11, 'c...........c'), 'ccccccccccccc'],
+    [...repeat(3, '^^^^^^^^^^^^^'), '^^^L^^^^^L^^^', ...repeat(5, '^^^^^^^^^^^^^'), '^^^L^^^^^L^^^', ...repeat(3, '^^^^^^^^^^^^^')], // Ceiling with lamps
+    ['             ', ...repeat(11, ' ^^^^^^^^^^^ '), '             '],
+    [...repeat(2, '             '), ...repeat(9, '  ^^^^^^^^^  '), ...repeat(2, '             ')],
+    [...repeat(3, '             '), ...repeat(7, '   ^^^^^^^   '), ...repeat(3, '             ')],
+    [...repeat(4, '             '), ...repeat(5, '    ^^^^^    '), ...repeat(4, '             ')],
+    [...repeat(5, '             '), ...repeat(3, '     ^^^     '), ...repeat(5, '             ')],
+    [...repeat(6, '             '), '      c      ', ...repeat(6, '             ')] // Spire
+  ]
+}));
+
+// Workplace of a village's woodcutters: an open shed with stacks of planks at the back
+registerStructureTemplate(parseJsonTemplate({
+  id: 'lumber-yard',
+  foundation: 'terrace',
+  floorOffset: 0,
+  entrance: { x: 4, z: -1 },
+  palette: { '#': 'Planks', '^': 'RoofTile' },
+  layers: [
+    ['#.......#', ...repeat(3, '.........'), ...repeat(2, '.###.###.'), '#.......#'],
+    ['#.......#', ...repeat(3, '.........'), ...repeat(2, '.###.###.'), '#.......#'],
+    ['#.......#', ...repeat(4, '.........'), '.###.###.', '#.......#'],
+    repeat(7, '^^^^^^^^^')
+  ]
+}));
+
+// The well in the middle of a village plaza
+registerStructureTemplate(parseJsonTemplate({
+  id: 'well',
+  foundation: 'flatten',
+  floorOffset: 1,
+  palette: { 'c': 'Cobblestone', '~': 'Water', '#': 'Planks', '^': 'RoofTile' },
+  layers: [
+    ['ccc', 'c~c', 'ccc'],
+    ['ccc', 'c.c', 'ccc'],
+    ['#.#', '...', '#.#'],
+    ['#.#', '...', '#.#'],
+    repeat(3, '^^^')
+  ]
+}));
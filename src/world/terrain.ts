@@ -1,72 +1,219 @@
-import * as THREE from 'three';
+// Terrain generator - the single source of truth for world generation.
+// Runs both on the main thread (height queries, fallback generation) and inside
+// the chunk worker (bundled from chunk-worker.ts), so it must stay free of THREE.js and DOM objects.
 import { createNoise2D, createNoise3D } from 'simplex-noise';
+import { createRandom, hashSeed } from './random';
+import { BlockType, isSolidBlock } from './blocks';
+import { BIOME_BLEND_RADIUS, getBiomes, type BiomeDefinition } from './biomes';
+import { buildChunkMesh, type ChunkMeshData, type NeighbourBlockLookup, type NeighbourLightLookup } from './mesher';
+import { carveTunnels } from './caves';
+import { computeChunkLight, FULL_SUNLIGHT } from './lighting';
+import { getStructuresAround, stampStructures, type StructurePlacement, type StructureTerrain } from './structure-placement';
+import { stampVillageGround } from './villages';
+import { packSections, type VoxelSections } from './sections';
 
 export const CHUNK_SIZE = 16;
 export const MAX_HEIGHT = 300;
 export const BLOCK_SIZE = 1;
 export const MAX_BLOCKS_PER_CHUNK = CHUNK_SIZE * CHUNK_SIZE * MAX_HEIGHT;
+export const CHUNK_VOLUME = MAX_BLOCKS_PER_CHUNK;
 export const WATER_LEVEL = 60; // Fixed water level
 
+// Chunks are stored, meshed and sent in sections of SECTION_HEIGHT layers (see sections.ts).
+// The top section is shorter when MAX_HEIGHT isn't a multiple of it.
+export const SECTION_HEIGHT = 16;
+export const SECTION_COUNT = Math.ceil(MAX_HEIGHT / SECTION_HEIGHT);
+
+// Index of a chunk-local voxel in a chunk's block array (x fastest, then z, then y)
+export function voxelIndex(x: number, y: number, z: number): number {
+  return (y * CHUNK_SIZE + z) * CHUNK_SIZE + x;
+}
+
 // Configuration flags
 export let USE_FLAT_TERRAIN = false;
 export const FLAT_TERRAIN_HEIGHT = 70; // Height for flat terrain mode
 
+// Salts used to derive an independent random stream per noise layer from the world seed
+export const NOISE_SALTS = {
+  main: 1,
+  detail: 2,
+  mountain: 3,
+  temperature: 4,
+  cave: 5,
+  humidity: 6,
+  biomeDither: 7,
+  overhang: 8,
+  objects: 100
+};
+
+// World seed - every noise layer and object placement is derived from it
+let worldSeed = 0;
+
 // Create multiple noise functions
-const mainNoise = createNoise2D();
-const detailNoise = createNoise2D();
-const mountainNoise = createNoise2D();
-const biomeNoise = createNoise2D();
-const caveNoise = createNoise3D();
-
-// Materials
-const grassMaterial = new THREE.MeshLambertMaterial({ color: 0x3d9140 });
-const dirtMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 });
-const sandMaterial = new THREE.MeshLambertMaterial({ color: 0xDEB887 });
-const rockMaterial = new THREE.MeshLambertMaterial({ color: 0x808080 });
-const snowMaterial = new THREE.MeshLambertMaterial({ color: 0xFFFFFF });
-const waterMaterial = new THREE.MeshLambertMaterial({ 
-  color: 0x0099FF, 
-  transparent: true, 
-  opacity: 0.7 
-});
-
-// Geometry for blocks
-const geometry = new THREE.BoxGeometry(BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
-
-// Enum for biome types
-enum BiomeType {
-  Plains,
-  Desert,
-  Mountains,
-  Forest
+let mainNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.main)));
+let detailNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.detail)));
+let mountainNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.mountain)));
+let temperatureNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.temperature)));
+let humidityNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.humidity)));
+let caveNoise = createNoise3D(createRandom(hashSeed(worldSeed, NOISE_SALTS.cave)));
+let overhangNoise = createNoise3D(createRandom(hashSeed(worldSeed, NOISE_SALTS.overhang)));
+
+// Layers sampled through sampleWrapped, by world position
+const sampleTemperature = (x: number, _y: number, z: number) => temperatureNoise(x / 400, z / 400);
+const sampleHumidity = (x: number, _y: number, z: number) => humidityNoise(x / 400, z / 400);
+const sampleOverhang = (x: number, y: number, z: number) => overhangNoise(x / 32, y / 24, z / 32);
+const sampleCave = (x: number, y: number, z: number) => caveNoise(x / 30, y / 30, z / 30);
+
+// A wrapping world repeats every `size` blocks from block `min` along both axes
+export interface WorldWrap {
+  min: number;
+  size: number;
 }
 
-// Get biome at a specific world position
-function getBiomeAt(x: number, z: number): BiomeType {
-  const biomeValue = biomeNoise(x / 200, z / 200);
-  
-  if (biomeValue < -0.5) return BiomeType.Desert;
-  if (biomeValue < 0) return BiomeType.Plains;
-  if (biomeValue < 0.5) return BiomeType.Forest;
-  return BiomeType.Mountains;
+// Null unless the world wraps - see setWorldWrap
+let worldWrap: WorldWrap | null = null;
+
+// Along the high edges of a wrapping world every layer fades over this many blocks into what lies
+// just past the low edges, so the terrain runs on across the seam
+const WRAP_BLEND_DISTANCE = 64;
+
+// Near the surface, terrain is solid where (height - y) / OVERHANG_FALLOFF + overhangNoise * strength > 0.
+// With a strength of s the density can only differ from the heightmap within OVERHANG_FALLOFF * s blocks of it.
+const OVERHANG_FALLOFF = 12;
+
+/**
+ * Re-seeds every noise layer. Must be called before any chunk is generated.
+ */
+export function setWorldSeed(seed: number): void {
+  worldSeed = seed >>> 0;
+  mainNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.main)));
+  detailNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.detail)));
+  mountainNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.mountain)));
+  temperatureNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.temperature)));
+  humidityNoise = createNoise2D(createRandom(hashSeed(worldSeed, NOISE_SALTS.humidity)));
+  caveNoise = createNoise3D(createRandom(hashSeed(worldSeed, NOISE_SALTS.cave)));
+  overhangNoise = createNoise3D(createRandom(hashSeed(worldSeed, NOISE_SALTS.overhang)));
+  console.log(`🌱 World seed set to ${worldSeed}`);
+}
+
+export function getWorldSeed(): number {
+  return worldSeed;
+}
+
+// Temperature and humidity at a world position, both roughly in [-1, 1]
+export interface Climate {
+  temperature: number;
+  humidity: number;
+}
+
+export function getClimateAt(x: number, z: number): Climate {
+  return {
+    temperature: sampleWrapped(sampleTemperature, x, 0, z),
+    humidity: sampleWrapped(sampleHumidity, x, 0, z)
+  };
+}
+
+/**
+ * Makes this thread's generator repeat across the edges of a wrapping world, or stop repeating
+ * (null). Use setGenerationConfig in chunkmanager.ts to change it for the chunk workers too.
+ */
+export function setWorldWrap(wrap: WorldWrap | null): void {
+  worldWrap = wrap;
+}
+
+// The block coordinate inside a wrapping world that a coordinate stands for
+function wrapCoord(value: number): number {
+  if (!worldWrap) return value;
+  const { min, size } = worldWrap;
+  return min + ((value - min) % size + size) % size;
+}
+
+// How far a wrapped coordinate has faded into what lies past the low edge, 0 to 1
+function getWrapBlend(value: number): number {
+  const { min, size } = worldWrap!;
+  const distance = Math.min(WRAP_BLEND_DISTANCE, size / 2);
+  const t = Math.min(Math.max((value - (min + size - distance)) / distance, 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Samples a layer at a world position. In a wrapping world the position is wrapped into the world
+ * and, near the high edges, the sample is blended towards the one a world's width back - the
+ * layer's values just past the low edges - so every layer meets itself at the seam.
+ */
+function sampleWrapped(sample: (x: number, y: number, z: number) => number, x: number, y: number, z: number): number {
+  if (!worldWrap) return sample(x, y, z);
+
+  const { size } = worldWrap;
+  const wrappedX = wrapCoord(x);
+  const wrappedZ = wrapCoord(z);
+  const blendX = getWrapBlend(wrappedX);
+  const blendZ = getWrapBlend(wrappedZ);
+  const sampleRow = (rowX: number) => {
+    const value = sample(rowX, y, wrappedZ);
+    return blendZ > 0 ? value + (sample(rowX, y, wrappedZ - size) - value) * blendZ : value;
+  };
+
+  const value = sampleRow(wrappedX);
+  return blendX > 0 ? value + (sampleRow(wrappedX - size) - value) * blendX : value;
+}
+
+// Squared distance between a climate and a biome's climate centre
+function climateDistanceSq(climate: Climate, biome: BiomeDefinition): number {
+  const dt = climate.temperature - biome.temperature;
+  const dh = climate.humidity - biome.humidity;
+  return dt * dt + dh * dh;
 }
 
+// Get biome at a specific world position - the biome whose climate centre is closest
+export function getBiomeAt(x: number, z: number): BiomeDefinition {
+  const climate = getClimateAt(x, z);
+  const biomes = getBiomes();
+
+  let closest = biomes[0]!;
+  let closestDistance = Infinity;
+  for (const biome of biomes) {
+    const distance = climateDistanceSq(climate, biome);
+    if (distance < closestDistance) {
+      closest = biome;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Picks the biome that dresses a column (surface blocks, objects). Inside a transition the
+ * choice is dithered between neighbouring biomes by their blend weights, so borders fray
+ * into each other instead of forming a straight line. Deterministic per seed and column.
+ */
+export function getBlendedBiomeAt(x: number, z: number): BiomeDefinition {
+  const climate = getClimateAt(x, z);
+  const biomes = getBiomes();
+  const blendSq = BIOME_BLEND_RADIUS * BIOME_BLEND_RADIUS;
+
+  const weights = biomes.map(biome => Math.exp(-climateDistanceSq(climate, biome) / blendSq));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return getBiomeAt(x, z);
+
+  let pick = createRandom(hashSeed(worldSeed, NOISE_SALTS.biomeDither, wrapCoord(x), wrapCoord(z)))() * totalWeight;
+  for (let i = 0; i < biomes.length; i++) {
+    pick -= weights[i]!;
+    if (pick <= 0) return biomes[i]!;
+  }
+  return biomes[biomes.length - 1]!;
+}
+
+// Only affects this thread's generator - use setGenerationConfig in chunkmanager.ts to change
+// the mode for the chunk workers too
 export function setFlatTerrainMode(enabled: boolean): void {
   USE_FLAT_TERRAIN = enabled;
   console.log(`Flat terrain mode ${enabled ? 'enabled' : 'disabled'}`);
-  
-  // Send message to chunk worker directly without importing from chunkmanager
-  // This avoids the circular dependency
-  const chunkWorker = (window as any).chunkWorkerInstance;
-  if (chunkWorker) {
-    chunkWorker.postMessage({
-      type: 'setFlatTerrainMode',
-      data: { enabled }
-    });
-  }
 }
 
-// Get terrain height using multiple octaves of noise
+// Get terrain height using multiple octaves of noise.
+// This is the heightmap the 3D density is shaped around - overhangs and caves are carved relative to it,
+// so it stays the fast way to ask roughly where the ground is.
 export function getTerrainHeightAt(x: number, z: number): number {
 
   // If flat terrain mode is enabled, return constant height
@@ -74,26 +221,33 @@ export function getTerrainHeightAt(x: number, z: number): number {
     return FLAT_TERRAIN_HEIGHT;
   } 
 
-  const biome = getBiomeAt(x, z);
-  
+  return Math.floor(sampleWrapped(sampleTerrainHeight, x, 0, z));
+}
+
+// The terrain height straight from the noise, before it is wrapped or rounded
+function sampleTerrainHeight(x: number, _y: number, z: number): number {
   // Base terrain
-  let height = (mainNoise(x / 100, z / 100) + 1) / 2 * 60 + 40;
+  let baseHeight = (mainNoise(x / 100, z / 100) + 1) / 2 * 60 + 40;
   
   // Add smaller details
-  height += detailNoise(x / 30, z / 30) * 10;
-  
-  // Add mountains in mountain biome
-  if (biome === BiomeType.Mountains) {
-    const mountainValue = mountainNoise(x / 50, z / 50);
-    if (mountainValue > 0.1) {
-      height += (mountainValue - 0.1) * 2 * 150;
-    }
-  }
-  
-  // Make desert biome flatter
-  if (biome === BiomeType.Desert) {
-    height = height * 0.5 + 40;
+  baseHeight += detailNoise(x / 30, z / 30) * 10;
+
+  // Mountain ridges, scaled by each biome's mountain amplitude
+  const mountainValue = Math.max(0, mountainNoise(x / 50, z / 50) - 0.1);
+
+  // Blend the height shaping of every biome by how close its climate is,
+  // so neighbouring biomes meet in slopes instead of walls
+  const climate = { temperature: sampleTemperature(x, 0, z), humidity: sampleHumidity(x, 0, z) };
+  const blendSq = BIOME_BLEND_RADIUS * BIOME_BLEND_RADIUS;
+  let height = 0;
+  let totalWeight = 0;
+  for (const biome of getBiomes()) {
+    const weight = Math.exp(-climateDistanceSq(climate, biome) / blendSq);
+    const biomeHeight = (baseHeight + mountainValue * biome.mountainAmplitude) * biome.heightScale + biome.heightOffset;
+    height += biomeHeight * weight;
+    totalWeight += weight;
   }
+  height = totalWeight > 0 ? height / totalWeight : baseHeight;
   
   // Cliff formations
   const cliffNoise = mainNoise(x / 20, z / 20);
@@ -101,225 +255,226 @@ export function getTerrainHeightAt(x: number, z: number): number {
     height += (cliffNoise - 0.7) * 100;
   }
   
-  return Math.floor(height);
+  return height;
 }
 
-// Get block material based on height and biome
-function getBlockMaterial(x: number, y: number, z: number, height: number): THREE.Material {
-  const biome = getBiomeAt(x, z);
-  
-  // Surface layer
-  if (y === height) {
-    switch (biome) {
-      case BiomeType.Desert:
-        return sandMaterial;
-      case BiomeType.Mountains:
-        return y > 120 ? snowMaterial : rockMaterial;
-      case BiomeType.Forest:
-      case BiomeType.Plains:
-      default:
-        return grassMaterial;
-    }
-  }
-  
-  // Subsurface layers
-  if (y > height - 4) {
-    return biome === BiomeType.Desert ? sandMaterial : dirtMaterial;
+/**
+ * How strongly overhangs shape the surface at a column, blended between biomes like the height
+ */
+export function getOverhangStrengthAt(x: number, z: number): number {
+  if (USE_FLAT_TERRAIN) return 0;
+
+  const climate = getClimateAt(x, z);
+  const blendSq = BIOME_BLEND_RADIUS * BIOME_BLEND_RADIUS;
+  let strength = 0;
+  let totalWeight = 0;
+  for (const biome of getBiomes()) {
+    const weight = Math.exp(-climateDistanceSq(climate, biome) / blendSq);
+    strength += biome.overhangStrength * weight;
+    totalWeight += weight;
   }
-  
-  // Deep layers
-  return rockMaterial;
+  return totalWeight > 0 ? strength / totalWeight : 0;
 }
 
-// Generate trees using local chunk coordinates
-function generateTree(x: number, y: number, z: number): THREE.Group {
-  const tree = new THREE.Group();
-  
-  // Trunk - using local coordinates
-  const trunkMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 });
-  const trunk = new THREE.Mesh(
-    new THREE.BoxGeometry(0.6, 4, 0.6),
-    trunkMaterial
-  );
-  trunk.position.set(x, y + 2, z);
-  tree.add(trunk);
-  
-  // Leaves - using local coordinates
-  const leavesMaterial = new THREE.MeshLambertMaterial({ color: 0x2d7d32 });
-  const leaves = new THREE.Mesh(
-    new THREE.SphereGeometry(2, 8, 8),
-    leavesMaterial
-  );
-  leaves.position.set(x, y + 5, z);
-  tree.add(leaves);
-  
-  return tree;
+// Trees placed on top of the terrain, in chunk-local coordinates
+export interface SpecialObjectData {
+  type: 'tree';
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Plain data describing a chunk, turned into THREE.js objects on the main thread
+export interface ChunkData {
+  blocks: VoxelSections; // BlockType per voxel, laid out by voxelIndex within each section
+  light: VoxelSections; // Packed light per voxel, lit as if the chunk stood alone (see lighting.ts)
+  heightmap: Int16Array; // Highest solid block per column at z * CHUNK_SIZE + x, -1 if none
+  mesh: Array<ChunkMeshData | null>; // Greedy-meshed geometry per section (null if empty), built here so the main thread only uploads it
+  specialObjects: SpecialObjectData[];
+  structures: StructurePlacement[]; // Structures whose lowest x/z corner is in this chunk
+}
+
+// What structure and village placement read from the generator
+export function getStructureTerrain(): StructureTerrain {
+  return { seed: worldSeed, getHeight: getTerrainHeightAt, getBiome: getBiomeAt, wrap: worldWrap };
 }
 
-export function generateChunk(cx: number, cz: number): THREE.Group {
-  try{
-    const chunkGroup = new THREE.Group();
-    chunkGroup.position.set(cx * CHUNK_SIZE, 0, cz * CHUNK_SIZE);
-    chunkGroup.userData = { cx, cz };
-
-    // Initialize the entire 3D array structure upfront
-    const blockGrid: number[][][] = Array(CHUNK_SIZE)
-      .fill(null)
-      .map(() => 
-        Array(MAX_HEIGHT)
-          .fill(null)
-          .map(() => Array(CHUNK_SIZE).fill(-1))
-      );
-
-    // Fill the grid with block type data first
-    for (let x = 0; x < CHUNK_SIZE; x++) {
-      for (let z = 0; z < CHUNK_SIZE; z++) {
-        const worldX = cx * CHUNK_SIZE + x;
-        const worldZ = cz * CHUNK_SIZE + z;
-        const height = getTerrainHeightAt(worldX, worldZ);
-        const biome = getBiomeAt(worldX, worldZ);
-
-        for (let y = 0; y <= height; y++) {
-          const caveValue = caveNoise(worldX / 30, y / 30, worldZ / 30);
-          if (caveValue > 0.7 && y < height - 5 && y > 20) {
-            blockGrid[x]![y]![z] = -1; // Air (cave)
-            continue;
-          }
-
-          // Determine material index
-          let matIndex = 0;
-          if (y === height) {
-            switch (biome) {
-              case BiomeType.Desert: matIndex = 2; break;
-              case BiomeType.Mountains: matIndex = y > 120 ? 4 : 3; break;
-              default: matIndex = 0;
-            }
-          } else if (y > height - 4) {
-            matIndex = biome === BiomeType.Desert ? 2 : 1;
-          } else {
-            matIndex = 3;
-          }
-          
-          blockGrid[x]![y]![z] = matIndex;
+// The chunk coordinate inside a wrapping world that a chunk coordinate stands for
+function wrapChunkCoord(c: number): number {
+  return Math.floor(wrapCoord(c * CHUNK_SIZE) / CHUNK_SIZE);
+}
+
+// Surface block of a biome at height y (snow above its snow line)
+export function getSurfaceBlock(biome: BiomeDefinition, y: number): BlockType {
+  return biome.snowLine !== undefined && y > biome.snowLine ? BlockType.Snow : biome.surfaceBlock;
+}
+
+// Generate data for a chunk
+export function generateChunkData(cx: number, cz: number): ChunkData {
+  const blocks = new Uint8Array(CHUNK_VOLUME); // Zero filled - all air
+
+  // Track where to place special objects like trees
+  const specialObjects: SpecialObjectData[] = [];
+
+  // Per-chunk random stream so object placement doesn't depend on generation order
+  const random = createRandom(hashSeed(worldSeed, NOISE_SALTS.objects, cx, cz));
+
+  const heightmap = new Int16Array(CHUNK_SIZE * CHUNK_SIZE);
+  const heights: number[] = [];
+  const bands: number[] = [];
+  const columnBiomes: BiomeDefinition[] = [];
+
+  // Solid terrain from the 3D density, dressed with the biome's blocks
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      const worldX = cx * CHUNK_SIZE + x;
+      const worldZ = cz * CHUNK_SIZE + z;
+      const height = Math.min(getTerrainHeightAt(worldX, worldZ), MAX_HEIGHT - 1);
+      const biome = getBlendedBiomeAt(worldX, worldZ);
+      const strength = getOverhangStrengthAt(worldX, worldZ);
+      const band = Math.ceil(OVERHANG_FALLOFF * strength);
+      heights[x * CHUNK_SIZE + z] = height;
+      bands[x * CHUNK_SIZE + z] = band;
+      columnBiomes[x * CHUNK_SIZE + z] = biome;
+
+      // Walk down the column counting solid blocks since the last air, so every surface
+      // that sees air above it - including the top of an overhang - gets the biome's layers
+      let depth = 0;
+      for (let y = Math.min(height + band, MAX_HEIGHT - 1); y >= 0; y--) {
+        let solid = y <= height - band;
+        if (!solid) {
+          const density = (height - y) / OVERHANG_FALLOFF + sampleWrapped(sampleOverhang, worldX, y, worldZ) * strength;
+          solid = density > 0;
+        }
+        if (!solid) {
+          depth = 0;
+          continue;
         }
 
-        // Water blocks
-        if (height < WATER_LEVEL) {
-          blockGrid[x]![WATER_LEVEL]![z] = -2; // -2 represents water
+        depth++;
+        let block: BlockType = BlockType.Rock;
+        if (depth === 1) {
+          block = getSurfaceBlock(biome, y);
+        } else if (depth <= biome.subsurfaceDepth + 1) {
+          block = biome.subsurfaceBlock;
         }
+        blocks[voxelIndex(x, y, z)] = block;
       }
-    }
 
-    const materials = [grassMaterial, dirtMaterial, sandMaterial, rockMaterial, snowMaterial];
-    const instancedMeshes = materials.map(mat =>
-      new THREE.InstancedMesh(geometry, mat, MAX_BLOCKS_PER_CHUNK)
-    );
-    const instanceCounts = new Array(materials.length).fill(0);
-
-    const waterMesh = new THREE.InstancedMesh(geometry, waterMaterial, CHUNK_SIZE * CHUNK_SIZE);
-    let waterCount = 0;
-
-    const dummy = new THREE.Object3D();
-
-    // Now render only the visible faces
-    for (let x = 0; x < CHUNK_SIZE; x++) {
-      for (let z = 0; z < CHUNK_SIZE; z++) {
-        const worldX = cx * CHUNK_SIZE + x;
-        const worldZ = cz * CHUNK_SIZE + z;
-        const height = getTerrainHeightAt(worldX, worldZ);
-        const biome = getBiomeAt(worldX, worldZ);
-
-        for (let y = 0; y <= height; y++) {
-          // Skip air blocks (caves or outside terrain)
-          if (blockGrid[x]![y]![z] === -1) continue;
-          
-          // Only render a block if at least one face is visible
-          const matIndex = blockGrid[x]![y]![z];
-          
-          // Check if any face is exposed to air or water
-          const isExposed = 
-            // Check block above
-            (y + 1 >= MAX_HEIGHT || blockGrid[x]![y + 1]?.[z] === -1 || blockGrid[x]![y + 1]?.[z] === -2) ||
-            // Check block below
-            (y - 1 < 0 || blockGrid[x]![y - 1]?.[z] === -1) ||
-            // Check block north (-z)
-            (z - 1 < 0 || blockGrid[x]![y]![z - 1] === -1 || blockGrid[x]![y]![z - 1] === -2) ||
-            // Check block south (+z)
-            (z + 1 >= CHUNK_SIZE || blockGrid[x]![y]![z + 1] === -1 || blockGrid[x]![y]![z + 1] === -2) ||
-            // Check block west (-x)
-            (x - 1 < 0 || blockGrid[x - 1]?.[y]?.[z] === -1 || blockGrid[x - 1]?.[y]?.[z] === -2) ||
-            // Check block east (+x)
-            (x + 1 >= CHUNK_SIZE || blockGrid[x + 1]?.[y]?.[z] === -1 || blockGrid[x + 1]?.[y]?.[z] === -2);
-          
-          // Only render if at least one face is exposed
-          if (isExposed && typeof matIndex === 'number' && matIndex >= 0 && matIndex < instancedMeshes.length) {
-            dummy.position.set(x, y, z); // local position inside chunk
-            dummy.updateMatrix();
-            instancedMeshes[matIndex]!.setMatrixAt(instanceCounts[matIndex]++, dummy.matrix);
-          }
+      // Round caves
+      for (let y = 21; y < height - 5; y++) {
+        if (sampleWrapped(sampleCave, worldX, y, worldZ) > 0.7) {
+          blocks[voxelIndex(x, y, z)] = BlockType.Air;
         }
+      }
+    }
+  }
 
-        // Water is always rendered
-        if (height < WATER_LEVEL) {
-          dummy.position.set(x, WATER_LEVEL, z);
-          dummy.updateMatrix();
-          waterMesh.setMatrixAt(waterCount++, dummy.matrix);
-        }
+  // Worm caves and ravines, which run on across chunk borders. Flat terrain stays a plain floor.
+  if (!USE_FLAT_TERRAIN) {
+    carveTunnels(blocks, cx, cz, CHUNK_SIZE, MAX_HEIGHT, worldSeed, voxelIndex, getTerrainHeightAt, wrapChunkCoord);
+  }
 
-        // Trees and houses
-        if (biome === BiomeType.Forest && Math.random() < 0.04 && height > WATER_LEVEL) {
-          const tree = generateTree(x, height, z);
-          chunkGroup.add(tree);
+  // Seas: water sources from the sea floor up to the water level
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      if (heights[x * CHUNK_SIZE + z]! < WATER_LEVEL) {
+        for (let y = WATER_LEVEL; y > 0 && blocks[voxelIndex(x, y, z)] === BlockType.Air; y--) {
+          blocks[voxelIndex(x, y, z)] = BlockType.Water;
         }
+      }
+    }
+  }
 
-        if (biome === BiomeType.Plains && Math.random() < 0.001 && height > WATER_LEVEL) {
-          const house = generateHouse(x, height, z);
-          chunkGroup.add(house);
+  // Village paths and plazas, then the buildings with the ground levelled under them
+  const structureTerrain = getStructureTerrain();
+  const covered = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
+  stampVillageGround(blocks, cx, cz, structureTerrain, covered);
+  const placements = getStructuresAround(cx, cz, structureTerrain);
+  stampStructures(blocks, cx, cz, placements, covered);
+
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      const height = heights[x * CHUNK_SIZE + z]!;
+      const biome = columnBiomes[x * CHUNK_SIZE + z]!;
+      const isCovered = covered[z * CHUNK_SIZE + x] === 1;
+
+      // Objects stand on the highest block, which overhangs and ravines may have moved off the heightmap.
+      // Structures can stand taller than that, so their columns are searched from the top.
+      let top = isCovered ? MAX_HEIGHT - 1 : Math.min(height + bands[x * CHUNK_SIZE + z]!, MAX_HEIGHT - 1);
+      while (top > 0 && blocks[voxelIndex(x, top, z)] === BlockType.Air) top--;
+
+      let surface = top;
+      while (surface >= 0 && !isSolidBlock(blocks[voxelIndex(x, surface, z)] as BlockType)) surface--;
+      heightmap[z * CHUNK_SIZE + x] = surface;
+
+      // Trees, as the biome allows, except on structures, their foundations and village paths
+      for (const spawn of biome.objects) {
+        if (random() < spawn.chance && top > WATER_LEVEL && !isCovered) {
+          specialObjects.push({ type: spawn.type, x, y: top, z });
+          break; // One object per column
         }
       }
     }
+  }
 
-    instancedMeshes.forEach((mesh, i) => {
-      mesh.count = instanceCounts[i];
-      if (mesh.count > 0) {
-        mesh.instanceMatrix.needsUpdate = true;
-        chunkGroup.add(mesh);
-      }
-    });
+  // Generated whole, kept in sections - the open sky and solid rock take next to no room
+  const sections = packSections(blocks);
+  const light = packSections(computeChunkLight(blocks));
 
-    if (waterCount > 0) {
-      waterMesh.count = waterCount;
-      waterMesh.instanceMatrix.needsUpdate = true;
-      chunkGroup.add(waterMesh);
+  // The worker doesn't have the neighbouring chunks, so borders are meshed against an estimate
+  const mesh = buildChunkMesh(sections, light, createBorderLookup(cx, cz), createBorderLightLookup(cx, cz));
+
+  return {
+    blocks: sections,
+    light,
+    heightmap,
+    mesh,
+    specialObjects,
+    structures: placements.filter(placement =>
+      Math.floor(placement.x / CHUNK_SIZE) === cx && Math.floor(placement.z / CHUNK_SIZE) === cz)
+  };
+}
+
+/**
+ * Creates a lookup that estimates the blocks just outside a chunk from the height noise alone.
+ * Overhangs and caves are unknown without generating the neighbour, so everything above the
+ * bottom layer reads as air (or sea) - at worst this draws hidden faces on the chunk border,
+ * never leaves a hole.
+ */
+export function createBorderLookup(cx: number, cz: number): NeighbourBlockLookup {
+  const heights = new Map<number, number>();
+
+  return (x, y, z) => {
+    const worldX = cx * CHUNK_SIZE + x;
+    const worldZ = cz * CHUNK_SIZE + z;
+    const columnKey = (x + 1) * (CHUNK_SIZE + 2) + (z + 1);
+
+    let height = heights.get(columnKey);
+    if (height === undefined) {
+      height = Math.min(getTerrainHeightAt(worldX, worldZ), MAX_HEIGHT - 1);
+      heights.set(columnKey, height);
     }
 
-    return chunkGroup;
-  }
-  catch (error) {
-    console.error('Error generating chunk:', error);
-    return new THREE.Group(); // Return an empty group on error
-  }     
+    // Seas fill everything between the sea floor and the water level
+    if (height < WATER_LEVEL && y > height && y <= WATER_LEVEL) return BlockType.Water;
+    return y > 0 ? BlockType.Air : BlockType.Rock;
+  };
 }
 
-// Generate houses using local chunk coordinates
-function generateHouse(x: number, y: number, z: number): THREE.Group {
-  const house = new THREE.Group();
-  
-  // Base - using local coordinates
-  const base = new THREE.Mesh(
-    new THREE.BoxGeometry(4, 3, 4),
-    new THREE.MeshLambertMaterial({ color: 0x8B4513 })
-  );
-  base.position.set(x, y + 1.5, z);
-  house.add(base);
-  
-  // Roof - using local coordinates
-  const roof = new THREE.Mesh(
-    new THREE.ConeGeometry(3, 2, 4),
-    new THREE.MeshLambertMaterial({ color: 0xff0000 })
-  );
-  roof.position.set(x, y + 4, z);
-  house.add(roof);
-  
-  return house;
-}
\ No newline at end of file
+/**
+ * Estimates the light just outside a chunk: open sky above the height noise, dark below
+ */
+export function createBorderLightLookup(cx: number, cz: number): NeighbourLightLookup {
+  const heights = new Map<number, number>();
+
+  return (x, y, z) => {
+    const columnKey = (x + 1) * (CHUNK_SIZE + 2) + (z + 1);
+    let height = heights.get(columnKey);
+    if (height === undefined) {
+      height = getTerrainHeightAt(cx * CHUNK_SIZE + x, cz * CHUNK_SIZE + z);
+      heights.set(columnKey, height);
+    }
+    return y > height ? FULL_SUNLIGHT : 0;
+  };
+}
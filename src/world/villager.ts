@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { HarvestableTree } from './special-objects';
 import { scene } from '../renderer/renderer';
 import { trackHarvestedTree } from './npc-manager';
+import { getSurfaceHeight } from './voxel-store';
 
 // Debug flag - set to false to avoid performance issues
 const DEBUG_WOODCUTTER = true;
@@ -10,6 +11,17 @@ const DEBUG_SAMPLE_RATE = 100;
 // Counter for sampling
 let debugCounter = 0;
 
+// Villagers step up or down at most this far. Ground further away either way - the roof over a
+// villager standing indoors, the floor of a ravine it walks across - leaves its height alone.
+const MAX_GROUND_STEP = 1.5;
+
+// Keeps a villager's feet on the ground under it, read from the loaded chunk's heightmap
+function followGround(position: THREE.Vector3): void {
+  const ground = getSurfaceHeight(position.x, position.z);
+  if (ground === undefined || Math.abs(ground - position.y) > MAX_GROUND_STEP) return;
+  position.y = ground;
+}
+
 // States for the villager behavior system
 export enum VillagerState {
   IDLE = 'idle',
@@ -255,6 +267,7 @@ export function createVillager(x: number, y: number, z: number, townHallId: numb
     if (distanceFromHome <= villager.walkRadius) {
       // Safe to move
       villager.position.copy(nextPos);
+      followGround(villager.position);
     } else {
       // Turn around
       villager.walkDirection.negate();
@@ -514,6 +527,7 @@ export function createWoodcutterVillager(x: number, y: number, z: number, townHa
         const idealPos = treePos.clone().sub(directionToTree.clone().multiplyScalar(harvestingDistance));
         this.position.copy(idealPos);
       }
+      followGround(this.position);
       
       // Animate walking
       const now = performance.now();
@@ -665,7 +679,7 @@ export function createWoodcutterVillager(x: number, y: number, z: number, townHa
     return false; // Still harvesting
   };
 
-  // Return to town hall with wood
+  // Return to the workplace (the lumber yard, or the town hall) with wood
   woodcutter.returnHome = function(deltaTime: number) {
     // Vector from woodcutter to home
     const directionToHome = this.homePosition.clone().sub(this.position).normalize();
@@ -680,6 +694,7 @@ export function createWoodcutterVillager(x: number, y: number, z: number, townHa
       // Move towards home
       const movement = directionToHome.multiplyScalar(this.walkSpeed * deltaTime);
       this.position.add(movement);
+      followGround(this.position);
       
       // Walking animation
       const now = performance.now();
@@ -772,6 +787,7 @@ export function createWoodcutterVillager(x: number, y: number, z: number, townHa
           if (distanceFromHome <= woodcutter.walkRadius) {
             // Safe to move
             woodcutter.position.copy(nextPos);
+            followGround(woodcutter.position);
           } else {
             // Turn around
             woodcutter.walkDirection.negate();
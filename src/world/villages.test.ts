@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { getBiomes } from './biomes';
+import { applyGenerationConfig, createGenerationConfig } from './generation-config';
+import { getStructureTerrain, WATER_LEVEL } from './terrain';
+import { getVillages, setTownHallSites, type Village } from './villages';
+import type { StructureTerrain } from './structure-placement';
+
+// Town hall sites far enough apart that each village has its full radius to itself
+const SITES = [
+  { x: -200, z: -200 },
+  { x: 200, z: -200 },
+  { x: -200, z: 200 },
+  { x: 200, z: 200 }
+];
+
+function syntheticTerrain(seed: number, getHeight: (x: number, z: number) => number): StructureTerrain {
+  const biome = getBiomes()[0]!;
+  return { seed, getHeight, getBiome: () => biome, wrap: null };
+}
+
+function expectHomesAndWork(village: Village) {
+  const homes = village.buildings.filter(building => building.role === 'home');
+  const workplaces = village.buildings.filter(building => building.role === 'workplace' && building.job);
+  expect(homes.length).toBeGreaterThanOrEqual(3);
+  expect(workplaces.length).toBeGreaterThanOrEqual(1);
+  // Everyone can get in and out: every home and workplace has a door above the sea
+  for (const building of [...homes, ...workplaces]) {
+    expect(building.door).not.toBeNull();
+    expect(building.door!.y).toBeGreaterThanOrEqual(WATER_LEVEL);
+  }
+}
+
+describe('planVillage', () => {
+  const terrains: Record<string, (x: number, z: number) => number> = {
+    flat: () => WATER_LEVEL + 10,
+    slope: x => WATER_LEVEL + 10 + Math.round(x * 0.4) % 40,
+    hills: (x, z) => WATER_LEVEL + 20 + Math.round(12 * Math.sin(x / 9) * Math.cos(z / 11)),
+    rough: (x, z) => WATER_LEVEL + 20 + Math.round(8 * Math.sin(x * 0.7 + z * 1.3) + 6 * Math.cos(x * 1.9 - z * 0.4)),
+    coast: (x, z) => (x + z) % 400 < 0 ? WATER_LEVEL - 10 : WATER_LEVEL + 8
+  };
+
+  for (const [name, getHeight] of Object.entries(terrains)) {
+    test(`builds houses and a workplace on ${name} terrain`, () => {
+      setTownHallSites(SITES);
+      const villages = getVillages(syntheticTerrain(name.length, getHeight));
+      expect(villages).toHaveLength(SITES.length);
+      villages.forEach(expectHomesAndWork);
+    });
+  }
+
+  test('builds houses and a workplace in every village of generated worlds', () => {
+    for (const seed of [1, 2, 3]) {
+      applyGenerationConfig(createGenerationConfig(seed));
+      const villages = getVillages(getStructureTerrain());
+      expect(villages).toHaveLength(4);
+      villages.forEach(expectHomesAndWork);
+    }
+  });
+});
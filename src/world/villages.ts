@@ -0,0 +1,594 @@
+// Villages
+// Every town hall is the heart of a village: a paved plaza with a well in front of the hall, paths
+// winding out from the plaza along the easiest ground, houses along the paths with their doors
+// towards them and workplaces such as a lumber yard at the path ends. Where the ground is too rough
+// for paths, whatever the village still lacks is built around the plaza instead. A village is
+// planned once per world from the seed and the height noise alone - like the other structures, so
+// the chunk workers and the main thread come up with the same layout - and then built chunk by chunk:
+// stampVillageGround lays the paths and the plaza, the buildings go in with the other structures.
+// The layout is kept for the villagers, who live in its houses and work at its workplaces.
+import { createRandom, hashSeed } from './random';
+import { BlockType, isSolidBlock } from './blocks';
+import { CHUNK_SIZE, MAX_HEIGHT, WATER_LEVEL, voxelIndex } from './terrain';
+import { getStructureTemplate, type StructureTemplate } from './structure-templates';
+import { getStructureFloorY, getWrapOffsets, levelColumn, TERRACE_MARGIN, type StructurePlacement, type StructureTerrain } from './structure-placement';
+
+const VILLAGE_SALT = 400;
+
+export const TOWN_HALL_TEMPLATE = 'town-hall';
+const HOUSE_TEMPLATE = 'house';
+const WELL_TEMPLATE = 'well';
+
+export type VillagerJob = 'woodcutter';
+
+// Workplaces every village gets, with the job done there
+const WORKPLACES: Array<{ template: string, job: VillagerJob }> = [
+  { template: 'lumber-yard', job: 'woodcutter' }
+];
+
+const PLAZA_RADIUS = 5;
+// Furthest a path or building may reach from the town hall, in blocks
+const VILLAGE_RADIUS = 48;
+const MIN_PATHS = 3;
+const MAX_PATHS = 4;
+const MIN_PATH_LENGTH = 24;
+const MAX_PATH_LENGTH = 40;
+// Most a path climbs or drops from one column to the next, in blocks
+const MAX_PATH_STEP = 1;
+// Deepest a path cuts into the ground or builds up over it to keep to MAX_PATH_STEP - it ends
+// where the ground is rougher than that
+const MAX_PATH_EARTHWORK = 3;
+// A path that ends sooner than this is tried again at other angles
+const MIN_USEFUL_PATH_LENGTH = 12;
+// Other angles a path tries, each a turn of PATH_RETRY_TURN further out on either side
+const PATH_RETRIES = 8;
+const PATH_RETRY_TURN = Math.PI / 8;
+// Paths leave the plaza at least this far apart
+const MIN_PATH_SEPARATION = Math.PI / 6;
+// Houses every village gets, around the plaza if the paths have no room for them
+const MIN_HOUSES = 3;
+// Where buildings go around the plaza: PLAZA_RINGS rings PLAZA_RING_SPACING blocks apart, with
+// PLAZA_RING_SPOTS spots around each
+const PLAZA_RINGS = 4;
+const PLAZA_RING_SPACING = 8;
+const PLAZA_RING_SPOTS = 16;
+// Steps along a path between houses
+const HOUSE_SPACING = 10;
+// Most the ground may vary under a building's footprint before the spot is given up
+const MAX_BUILDING_SLOPE = 5;
+
+// Door directions of the four rotations: templates have their door on the -z side, and each
+// quarter turn clockwise turns -z into +x (see rotateTemplate)
+const DOOR_FACING = [
+  { x: 0, z: -1 },
+  { x: 1, z: 0 },
+  { x: 0, z: 1 },
+  { x: -1, z: 0 }
+];
+
+export type VillageBuildingRole = 'townHall' | 'well' | 'home' | 'workplace';
+
+export interface VillageBuilding {
+  role: VillageBuildingRole;
+  // What the villagers working here do, for workplaces
+  job?: VillagerJob;
+  placement: StructurePlacement;
+  // Ground block in front of the door, where villagers come and go. Null for the well.
+  door: { x: number, y: number, z: number } | null;
+}
+
+// A column of a path and the height of the path's surface there
+export interface PathPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Columns from min to max, inclusive
+interface Rect {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+export interface Village {
+  id: number; // Index of the town hall site it grew around
+  center: { x: number, z: number };
+  // The plaza is a disc of radius blocks around (x, z), paved at height y
+  plaza: { x: number, y: number, z: number, radius: number };
+  // Centre lines of the paths, column by column (paths are two blocks wide)
+  paths: PathPoint[][];
+  buildings: VillageBuilding[];
+  // Everything the village covers, terraces included
+  bounds: Rect;
+}
+
+// Centres of the town halls, in world block coordinates
+let townHallSites: Array<{ x: number, z: number }> = [];
+
+// Villages of the current sites, planned for the world seed they were planned with
+let villages: Village[] | null = null;
+let villageSeed = 0;
+
+/**
+ * Sets where the town halls (and so the villages) are. Any planned villages are thrown away.
+ */
+export function setTownHallSites(sites: ReadonlyArray<{ x: number, z: number }>): void {
+  townHallSites = sites.map(site => ({ x: Math.round(site.x), z: Math.round(site.z) }));
+  villages = null;
+}
+
+/**
+ * Every village, planned on first use. A village whose town hall template is missing is left out.
+ */
+export function getVillages(terrain: StructureTerrain): Village[] {
+  if (!villages || villageSeed !== terrain.seed) {
+    villageSeed = terrain.seed;
+    villages = [];
+    townHallSites.forEach((site, index) => {
+      const village = planVillage(site, index, terrain);
+      if (village) villages!.push(village);
+    });
+  }
+  return villages;
+}
+
+/**
+ * The village around a town hall, by the town hall's index
+ */
+export function getVillage(id: number, terrain: StructureTerrain): Village | undefined {
+  return getVillages(terrain).find(village => village.id === id);
+}
+
+// The ground block in front of a building's door
+function getDoor(placement: StructurePlacement, template: StructureTemplate): VillageBuilding['door'] {
+  if (!template.entrance) return null;
+  return { x: placement.x + template.entrance.x, y: placement.y - 1, z: placement.z + template.entrance.z };
+}
+
+function footprint(placement: StructurePlacement, template: StructureTemplate, margin: number): Rect {
+  return {
+    minX: placement.x - margin,
+    minZ: placement.z - margin,
+    maxX: placement.x + template.width - 1 + margin,
+    maxZ: placement.z + template.depth - 1 + margin
+  };
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minZ <= b.maxZ && b.minZ <= a.maxZ;
+}
+
+function planVillage(site: { x: number, z: number }, id: number, terrain: StructureTerrain): Village | null {
+  if (!getStructureTemplate(TOWN_HALL_TEMPLATE)) return null;
+
+  const random = createRandom(hashSeed(terrain.seed, VILLAGE_SALT, id));
+  const height = (x: number, z: number) => terrain.getHeight(x, z);
+
+  // Keeps a village to the land nearer its own town hall than any other, so neighbours don't overlap
+  const inReach = (x: number, z: number, margin: number) => {
+    const distance = Math.hypot(x - site.x, z - site.z);
+    if (distance > VILLAGE_RADIUS) return false;
+    return townHallSites.every(other => other === townHallSites[id] ||
+      Math.hypot(x - other.x, z - other.z) - distance >= margin * 2);
+  };
+
+  const buildings: VillageBuilding[] = [];
+  // Ground already spoken for: building footprints with their terraces, and the plaza
+  const taken: Rect[] = [];
+
+  // The hall looks away from the other town halls, so the village has room to grow in front of it
+  const away = { x: 0, z: 0 };
+  for (const other of townHallSites) {
+    if (other === townHallSites[id]) continue;
+    const direction = normalize(site.x - other.x, site.z - other.z);
+    away.x += direction.x;
+    away.z += direction.z;
+  }
+  const rotation = away.x === 0 && away.z === 0 ? Math.floor(random() * 4) : facingRotation(away);
+  const facing = DOOR_FACING[rotation]!;
+  const hallTemplate = getStructureTemplate(TOWN_HALL_TEMPLATE, rotation)!;
+
+  const hall: StructurePlacement = {
+    template: TOWN_HALL_TEMPLATE,
+    rotation,
+    x: site.x - Math.floor(hallTemplate.width / 2),
+    y: 0,
+    z: site.z - Math.floor(hallTemplate.depth / 2)
+  };
+  // The plaza opens out in front of the hall's door, level with the hall's ground. Both stand at
+  // the middle height of the ground under them, so a lone spike or dip at the site doesn't leave
+  // the village centre stranded above or below everything around it.
+  const entrance = getDoor(hall, hallTemplate) ?? { x: site.x, y: 0, z: site.z };
+  const plazaX = entrance.x + facing.x * PLAZA_RADIUS;
+  const plazaZ = entrance.z + facing.z * PLAZA_RADIUS;
+  const centre = footprint(hall, hallTemplate, 0);
+  includeRect(centre, { minX: plazaX - PLAZA_RADIUS, minZ: plazaZ - PLAZA_RADIUS, maxX: plazaX + PLAZA_RADIUS, maxZ: plazaZ + PLAZA_RADIUS });
+  hall.y = getStructureFloorY(site.x, site.z, () => getMedianHeight(centre, height));
+
+  const hallDoor = { x: entrance.x, y: hall.y - 1, z: entrance.z };
+  buildings.push({ role: 'townHall', placement: hall, door: hallDoor });
+  taken.push(footprint(hall, hallTemplate, TERRACE_MARGIN));
+
+  const plaza = { x: plazaX, y: hall.y - 1, z: plazaZ, radius: PLAZA_RADIUS };
+  taken.push({ minX: plaza.x - PLAZA_RADIUS - 1, minZ: plaza.z - PLAZA_RADIUS - 1, maxX: plaza.x + PLAZA_RADIUS + 1, maxZ: plaza.z + PLAZA_RADIUS + 1 });
+
+  const wellTemplate = getStructureTemplate(WELL_TEMPLATE);
+  if (wellTemplate) {
+    const well = {
+      template: WELL_TEMPLATE,
+      rotation: 0,
+      x: plaza.x - Math.floor(wellTemplate.width / 2),
+      y: plaza.y + wellTemplate.floorOffset,
+      z: plaza.z - Math.floor(wellTemplate.depth / 2)
+    };
+    buildings.push({ role: 'well', placement: well, door: null });
+  }
+
+  // Paths fan out from the plaza, away from the hall. One that soon runs into ground too rough or
+  // into the sea is tried again further round, and the longest attempt is kept.
+  const forward = Math.atan2(facing.z, facing.x);
+  const paths: PathPoint[][] = [];
+  const pathAngles: number[] = [];
+  const pathCount = MIN_PATHS + Math.floor(random() * (MAX_PATHS - MIN_PATHS + 1));
+  for (let i = 0; i < pathCount; i++) {
+    const planned = forward + ((i + 0.5) / pathCount - 0.5) * Math.PI * 1.2 + (random() - 0.5) * 0.3;
+    const length = MIN_PATH_LENGTH + Math.floor(random() * (MAX_PATH_LENGTH - MIN_PATH_LENGTH + 1));
+
+    let best: PathPoint[] = [];
+    let bestAngle = planned;
+    for (let attempt = 0; attempt <= PATH_RETRIES * 2 && best.length < MIN_USEFUL_PATH_LENGTH; attempt++) {
+      const angle = planned + Math.ceil(attempt / 2) * (attempt % 2 === 0 ? -1 : 1) * PATH_RETRY_TURN;
+      if (pathAngles.some(other => angleBetween(angle, other) < MIN_PATH_SEPARATION)) continue;
+
+      const start = {
+        x: Math.round(plaza.x + Math.cos(angle) * (PLAZA_RADIUS + 1)),
+        y: plaza.y,
+        z: Math.round(plaza.z + Math.sin(angle) * (PLAZA_RADIUS + 1))
+      };
+      const path = walkPath(start, angle, length, random, height,
+        (x, z) => inReach(x, z, 2) && !rectsOverlap({ minX: x, minZ: z, maxX: x + 1, maxZ: z + 1 }, taken[0]!));
+      if (path.length > best.length) {
+        best = path;
+        bestAngle = angle;
+      }
+    }
+    if (best.length > 1) {
+      paths.push(best);
+      pathAngles.push(bestAngle);
+    }
+  }
+
+  // Buildings keep off the paths, and the paths to their doors
+  const pathColumns = new Set<string>();
+  const markPath = (path: PathPoint[]) => {
+    for (const point of path) {
+      for (let dx = 0; dx <= 1; dx++) {
+        for (let dz = 0; dz <= 1; dz++) pathColumns.add(`${point.x + dx},${point.z + dz}`);
+      }
+    }
+  };
+  paths.forEach(markPath);
+
+  // Places a building with the column in front of its door at target, the door facing that way.
+  // The ground under it may vary by up to maxSlope blocks - beyond MAX_BUILDING_SLOPE the terrace
+  // raises it out of the sea too, which is only wanted when nowhere better is left.
+  const tryPlace = (templateId: string, target: { x: number, z: number }, facing: { x: number, z: number }, maxSlope = MAX_BUILDING_SLOPE): StructurePlacement | null => {
+    const rotation = facingRotation(facing);
+    const template = getStructureTemplate(templateId, rotation);
+    if (!template?.entrance) return null;
+
+    const placement: StructurePlacement = {
+      template: templateId,
+      rotation,
+      x: target.x - template.entrance.x,
+      y: 0,
+      z: target.z - template.entrance.z
+    };
+    const area = footprint(placement, template, TERRACE_MARGIN);
+    if (![[area.minX, area.minZ], [area.maxX, area.minZ], [area.minX, area.maxZ], [area.maxX, area.maxZ]].every(([x, z]) => inReach(x!, z!, 0))) {
+      return null;
+    }
+
+    // Keep clear of the other buildings' terraces and off the paths
+    const base = footprint(placement, template, 0);
+    const spaced = footprint(placement, template, 1);
+    if (taken.some(rect => rectsOverlap(rect, spaced))) return null;
+    for (let x = base.minX; x <= base.maxX; x++) {
+      for (let z = base.minZ; z <= base.maxZ; z++) {
+        if (pathColumns.has(`${x},${z}`)) return null;
+      }
+    }
+
+    // Fit the ground: not in the sea, not on a cliff
+    const centerX = placement.x + Math.floor(template.width / 2);
+    const centerZ = placement.z + Math.floor(template.depth / 2);
+    const centerHeight = height(centerX, centerZ);
+    if (centerHeight <= WATER_LEVEL && maxSlope <= MAX_BUILDING_SLOPE) return null;
+    for (const [x, z] of [[base.minX, base.minZ], [base.maxX, base.minZ], [base.minX, base.maxZ], [base.maxX, base.maxZ]]) {
+      if (Math.abs(height(x!, z!) - centerHeight) > maxSlope) return null;
+    }
+
+    placement.y = getStructureFloorY(centerX, centerZ, height);
+    taken.push(area);
+    return placement;
+  };
+
+  // A short path from a door to the path it faces, sloping evenly from one's height to the other's
+  const connectors: PathPoint[][] = [];
+  const connect = (door: PathPoint, point: PathPoint) => {
+    const steps = Math.max(Math.abs(door.x - point.x), Math.abs(door.z - point.z), 1);
+    const connector: PathPoint[] = [];
+    for (let i = 0; i <= steps; i++) {
+      connector.push({
+        x: Math.round(point.x + (door.x - point.x) * i / steps),
+        y: Math.round(point.y + (door.y - point.y) * i / steps),
+        z: Math.round(point.z + (door.z - point.z) * i / steps)
+      });
+    }
+    connectors.push(connector);
+    markPath(connector);
+  };
+
+  // Adds a building whose door is reached from a point on a path or the plaza. The path to the
+  // door climbs no more than a path does, so the building is raised or sunk to match and its
+  // terrace takes up the difference with the ground.
+  const addBuilding = (templateId: string, placement: StructurePlacement, target: { x: number, z: number }, from: PathPoint, role: VillageBuildingRole, job?: VillagerJob) => {
+    const climb = Math.max(Math.abs(target.x - from.x), Math.abs(target.z - from.z), 1) * MAX_PATH_STEP;
+    const doorY = Math.min(Math.max(placement.y - 1, from.y - climb), from.y + climb);
+    placement.y = Math.max(doorY + 1, WATER_LEVEL + 1);
+    buildings.push({ role, job, placement, door: getDoor(placement, getStructureTemplate(templateId, placement.rotation)!) });
+    connect({ x: target.x, y: placement.y - 1, z: target.z }, from);
+  };
+
+  // Places a building beside a path at one of a few steps from slot on, out to the given side
+  // (or else the other) a step back from the path's edge, its door looking back at the path
+  const placeBeside = (templateId: string, path: PathPoint[], slot: number, side: number, role: VillageBuildingRole, job?: VillagerJob, maxSlope = MAX_BUILDING_SLOPE): number => {
+    for (let s = slot; s < Math.min(path.length, slot + 4); s++) {
+      const point = path[s]!;
+      const ahead = path[Math.min(path.length - 1, s + 2)]!;
+      const behind = path[Math.max(0, s - 2)]!;
+      const direction = normalize(ahead.x - behind.x, ahead.z - behind.z);
+
+      for (const trySide of [side, -side]) {
+        const normal = { x: -direction.z * trySide, z: direction.x * trySide };
+        const target = { x: Math.round(point.x + 0.5 + normal.x * 2.5), z: Math.round(point.z + 0.5 + normal.z * 2.5) };
+        const placement = tryPlace(templateId, target, { x: -normal.x, z: -normal.z }, maxSlope);
+        if (placement) {
+          addBuilding(templateId, placement, target, point, role, job);
+          return s;
+        }
+      }
+    }
+    return -1;
+  };
+
+  // Places a building at the end of a path facing back down it where there is room, or else
+  // beside the path as close to its end as it fits
+  const placeAtEnd = (templateId: string, path: PathPoint[], role: VillageBuildingRole, job?: VillagerJob): boolean => {
+    const end = path[path.length - 1]!;
+    const direction = normalize(end.x - path[Math.max(0, path.length - 3)]!.x, end.z - path[Math.max(0, path.length - 3)]!.z);
+    const target = { x: Math.round(end.x + 0.5 + direction.x * 2.5), z: Math.round(end.z + 0.5 + direction.z * 2.5) };
+    const placement = tryPlace(templateId, target, { x: -direction.x, z: -direction.z });
+    if (placement) {
+      addBuilding(templateId, placement, target, end, role, job);
+      return true;
+    }
+    for (let s = path.length - 4; s >= 2; s -= 4) {
+      if (placeBeside(templateId, path, s, 1, role, job) >= 0) return true;
+    }
+    return false;
+  };
+
+  // Places a building wherever it fits best, for what the village still lacks after the paths
+  // were built along: beside a path, or else facing the plaza from around it. Where nothing fits
+  // the ground is allowed to get rougher and rougher, the terrace levelling it out.
+  const byLength = [...paths].sort((a, b) => b.length - a.length);
+  const placeAnywhere = (templateId: string, role: VillageBuildingRole, job?: VillagerJob): boolean => {
+    for (const maxSlope of [MAX_BUILDING_SLOPE, MAX_BUILDING_SLOPE * 2, MAX_BUILDING_SLOPE * 4, Infinity]) {
+      for (const path of byLength) {
+        for (let s = 2; s < path.length; s += 4) {
+          if (placeBeside(templateId, path, s, 1, role, job, maxSlope) >= 0) return true;
+        }
+      }
+
+      for (let ring = 0; ring < PLAZA_RINGS; ring++) {
+        const distance = PLAZA_RADIUS + 3 + ring * PLAZA_RING_SPACING;
+        for (let i = 0; i < PLAZA_RING_SPOTS; i++) {
+          const angle = forward + i / PLAZA_RING_SPOTS * Math.PI * 2;
+          const direction = { x: Math.cos(angle), z: Math.sin(angle) };
+          const target = { x: Math.round(plaza.x + direction.x * distance), z: Math.round(plaza.z + direction.z * distance) };
+          const placement = tryPlace(templateId, target, direction, maxSlope);
+          if (placement) {
+            const edge = {
+              x: Math.round(plaza.x + direction.x * PLAZA_RADIUS),
+              y: plaza.y,
+              z: Math.round(plaza.z + direction.z * PLAZA_RADIUS)
+            };
+            addBuilding(templateId, placement, target, edge, role, job);
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  // Workplaces at the far ends of the longest paths, or on another path if there is no room there
+  WORKPLACES.forEach(({ template, job }, i) => {
+    for (let p = 0; p < byLength.length; p++) {
+      if (placeAtEnd(template, byLength[(i + p) % byLength.length]!, 'workplace', job)) return;
+    }
+    placeAnywhere(template, 'workplace', job);
+  });
+
+  // Houses along the paths, on alternating sides
+  for (const path of paths) {
+    let side = random() < 0.5 ? 1 : -1;
+    let s = 4 + Math.floor(random() * 4);
+    while (s < path.length) {
+      const placed = placeBeside(HOUSE_TEMPLATE, path, s, side, 'home');
+      side = -side;
+      s = placed >= 0 ? placed + HOUSE_SPACING + Math.floor(random() * 4) : s + 4;
+    }
+  }
+  const homeCount = () => buildings.filter(building => building.role === 'home').length;
+  while (homeCount() < MIN_HOUSES && placeAnywhere(HOUSE_TEMPLATE, 'home'));
+
+  const village: Village = {
+    id,
+    center: { x: site.x, z: site.z },
+    plaza,
+    paths: [...paths, ...connectors],
+    buildings,
+    bounds: { minX: Infinity, minZ: Infinity, maxX: -Infinity, maxZ: -Infinity }
+  };
+  for (const rect of taken) includeRect(village.bounds, rect);
+  for (const path of village.paths) {
+    for (const point of path) includeRect(village.bounds, { minX: point.x, minZ: point.z, maxX: point.x + 1, maxZ: point.z + 1 });
+  }
+
+  console.log(`🏘️ Planned village ${id + 1} with ${homeCount()} houses and ${paths.length} paths`);
+  return village;
+}
+
+// The rotation whose door looks most nearly along a direction
+function facingRotation(direction: { x: number, z: number }): number {
+  const alignment = DOOR_FACING.map(facing => facing.x * direction.x + facing.z * direction.z);
+  return alignment.indexOf(Math.max(...alignment));
+}
+
+// Middle ground height over an area, sampled every other column
+function getMedianHeight(area: Rect, height: (x: number, z: number) => number): number {
+  const heights: number[] = [];
+  for (let x = area.minX; x <= area.maxX; x += 2) {
+    for (let z = area.minZ; z <= area.maxZ; z += 2) heights.push(height(x, z));
+  }
+  heights.sort((a, b) => a - b);
+  return heights[heights.length >> 1]!;
+}
+
+// Angle between two directions, 0 to PI
+function angleBetween(a: number, b: number): number {
+  const difference = Math.abs(a - b) % (Math.PI * 2);
+  return difference > Math.PI ? Math.PI * 2 - difference : difference;
+}
+
+function normalize(x: number, z: number): { x: number, z: number } {
+  const length = Math.hypot(x, z);
+  return length > 0 ? { x: x / length, z: z / length } : { x: 0, z: -1 };
+}
+
+function includeRect(bounds: Rect, rect: Rect): void {
+  bounds.minX = Math.min(bounds.minX, rect.minX);
+  bounds.minZ = Math.min(bounds.minZ, rect.minZ);
+  bounds.maxX = Math.max(bounds.maxX, rect.maxX);
+  bounds.maxZ = Math.max(bounds.maxZ, rect.maxZ);
+}
+
+// Walks a path from start, each step turning towards whichever way needs the least digging and
+// filling. The path climbs at most MAX_PATH_STEP a column, cut into or built up over the ground
+// where that is steeper. Columns are returned edge to edge (no diagonal steps), so the path has no gaps.
+function walkPath(
+  start: PathPoint,
+  angle: number,
+  length: number,
+  random: () => number,
+  height: (x: number, z: number) => number,
+  allowed: (x: number, z: number) => boolean
+): PathPoint[] {
+  const path = [start];
+  let x = start.x;
+  let z = start.z;
+  let heading = angle;
+
+  for (let step = 0; step < length; step++) {
+    const last = path[path.length - 1]!;
+    let best: { x: number, y: number, z: number, heading: number } | null = null;
+    let bestScore = Infinity;
+
+    for (const turn of [-0.3, 0, 0.3]) {
+      const candidate = heading + turn + (random() - 0.5) * 0.2;
+      const nextX = x + Math.cos(candidate);
+      const nextZ = z + Math.sin(candidate);
+      const column = { x: Math.round(nextX), z: Math.round(nextZ) };
+      const ground = height(column.x, column.z);
+      const y = Math.min(Math.max(ground, last.y - MAX_PATH_STEP), last.y + MAX_PATH_STEP);
+      const earthwork = Math.abs(ground - y);
+      if (y <= WATER_LEVEL || earthwork > MAX_PATH_EARTHWORK || !allowed(column.x, column.z)) continue;
+
+      const score = earthwork + Math.abs(y - last.y) * 0.5 + Math.abs(turn) * 2 + random() * 0.8;
+      if (score < bestScore) {
+        bestScore = score;
+        best = { x: nextX, y, z: nextZ, heading: candidate };
+      }
+    }
+    if (!best) break;
+
+    x = best.x;
+    z = best.z;
+    heading = best.heading;
+    const column = { x: Math.round(x), y: best.y, z: Math.round(z) };
+    if (column.x === last.x && column.z === last.z) continue;
+    if (column.x !== last.x && column.z !== last.z) path.push({ x: column.x, y: last.y, z: last.z });
+    path.push(column);
+  }
+  return path;
+}
+
+/**
+ * Lays the plazas and paths of the villages inside a chunk: plazas are levelled, paved and stepped
+ * down to the terrain around them, paths are cut into or built up to their height and surfaced
+ * with path blocks.
+ *
+ * @param covered Marked with every column a path or plaza covers (z * CHUNK_SIZE + x)
+ */
+export function stampVillageGround(blocks: Uint8Array, cx: number, cz: number, terrain: StructureTerrain, covered: Uint8Array): void {
+  // In a wrapping world a village near one edge carries on past the opposite one
+  const offsets = getWrapOffsets(terrain);
+  for (const village of getVillages(terrain)) {
+    for (const offsetX of offsets) {
+      for (const offsetZ of offsets) {
+        stampVillage(blocks, village, cx * CHUNK_SIZE - offsetX, cz * CHUNK_SIZE - offsetZ, covered);
+      }
+    }
+  }
+}
+
+// Lays the parts of a village's plaza and paths inside a chunk, given the chunk's lowest corner
+function stampVillage(blocks: Uint8Array, village: Village, minX: number, minZ: number, covered: Uint8Array): void {
+  const chunkRect = { minX, minZ, maxX: minX + CHUNK_SIZE - 1, maxZ: minZ + CHUNK_SIZE - 1 };
+  if (!rectsOverlap(village.bounds, chunkRect)) return;
+
+  const { plaza } = village;
+  for (let z = 0; z < CHUNK_SIZE; z++) {
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      const distance = Math.ceil(Math.hypot(minX + x - plaza.x, minZ + z - plaza.z) - plaza.radius);
+      if (distance > TERRACE_MARGIN) continue;
+      if (distance > 0) {
+        levelColumn(blocks, x, z, plaza.y - distance, plaza.y + distance);
+        continue;
+      }
+      levelColumn(blocks, x, z, plaza.y, plaza.y);
+      blocks[voxelIndex(x, plaza.y, z)] = BlockType.Cobblestone;
+      covered[z * CHUNK_SIZE + x] = 1;
+    }
+  }
+
+  // Paths are levelled to their own height, over the plaza's terrace where they cross it
+  for (const path of village.paths) {
+    for (const point of path) {
+      for (let dx = 0; dx <= 1; dx++) {
+        for (let dz = 0; dz <= 1; dz++) {
+          const x = point.x + dx - minX;
+          const z = point.z + dz - minZ;
+          if (x < 0 || x >= CHUNK_SIZE || z < 0 || z >= CHUNK_SIZE) continue;
+          levelColumn(blocks, x, z, point.y, point.y);
+          blocks[voxelIndex(x, point.y, z)] = BlockType.Path;
+          covered[z * CHUNK_SIZE + x] = 1;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+// Ray casting against the voxel data (no THREE.js scene traversal involved)
+import { getBlock, toBlockCoord } from './voxel-store';
+import { BlockType, isSolidBlock } from './blocks';
+
+// Result of a voxel ray cast
+export interface VoxelHit {
+  block: BlockType;
+  position: { x: number, y: number, z: number }; // Block coordinates of the hit block
+  normal: { x: number, y: number, z: number }; // Outward normal of the face that was hit
+  distance: number;
+}
+
+/**
+ * Walks the voxel grid along a ray (Amanatides & Woo) and returns the first solid block.
+ *
+ * @param origin Ray start in world coordinates
+ * @param direction Ray direction, does not need to be normalised
+ * @param maxDistance How far to search in world units
+ */
+export function raycastVoxels(
+  origin: { x: number, y: number, z: number },
+  direction: { x: number, y: number, z: number },
+  maxDistance: number
+): VoxelHit | null {
+  const length = Math.hypot(direction.x, direction.y, direction.z);
+  if (length === 0) return null;
+  const dx = direction.x / length;
+  const dy = direction.y / length;
+  const dz = direction.z / length;
+
+  // Blocks are centred on integer coordinates, so the grid lines sit at n + 0.5
+  let x = toBlockCoord(origin.x);
+  let y = toBlockCoord(origin.y);
+  let z = toBlockCoord(origin.z);
+
+  const stepX = Math.sign(dx);
+  const stepY = Math.sign(dy);
+  const stepZ = Math.sign(dz);
+
+  // Distance along the ray to cross one whole cell on each axis
+  const deltaX = stepX !== 0 ? Math.abs(1 / dx) : Infinity;
+  const deltaY = stepY !== 0 ? Math.abs(1 / dy) : Infinity;
+  const deltaZ = stepZ !== 0 ? Math.abs(1 / dz) : Infinity;
+
+  // Distance along the ray to the first cell boundary on each axis
+  const boundary = (position: number, cell: number, step: number) =>
+    step > 0 ? cell + 0.5 - position : position - (cell - 0.5);
+  let maxX = stepX !== 0 ? boundary(origin.x, x, stepX) * deltaX : Infinity;
+  let maxY = stepY !== 0 ? boundary(origin.y, y, stepY) * deltaY : Infinity;
+  let maxZ = stepZ !== 0 ? boundary(origin.z, z, stepZ) * deltaZ : Infinity;
+
+  const normal = { x: 0, y: 0, z: 0 };
+  let distance = 0;
+
+  while (distance <= maxDistance) {
+    const block = getBlock(x, y, z);
+    if (isSolidBlock(block)) {
+      return { block, position: { x, y, z }, normal: { ...normal }, distance };
+    }
+
+    // Step into the next cell along the axis with the nearest boundary
+    if (maxX < maxY && maxX < maxZ) {
+      x += stepX;
+      distance = maxX;
+      maxX += deltaX;
+      normal.x = -stepX; normal.y = 0; normal.z = 0;
+    } else if (maxY < maxZ) {
+      y += stepY;
+      distance = maxY;
+      maxY += deltaY;
+      normal.x = 0; normal.y = -stepY; normal.z = 0;
+    } else {
+      z += stepZ;
+      distance = maxZ;
+      maxZ += deltaZ;
+      normal.x = 0; normal.y = 0; normal.z = -stepZ;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,234 @@
+// Voxel storage for every loaded chunk
+// Keeps the block data the worker generated so the world can be queried and edited
+// after the chunk meshes have been built. Chunks are stored under their coordinates inside the
+// world, so in a wrapping world the blocks past an edge are read and edited at the opposite one.
+import { CHUNK_SIZE, MAX_HEIGHT, SECTION_COUNT, voxelIndex } from './terrain';
+import { BlockType, isSolidBlock } from './blocks';
+import { computeChunkLight } from './lighting';
+import { relightBlock } from './light-updates';
+import { getSectionForY, getVoxel, packSections, setVoxel, unpackSections, type VoxelSections } from './sections';
+import { wrapChunkCoord } from './world-config';
+
+// Block data of a single loaded chunk
+export interface ChunkVoxels {
+  cx: number;
+  cz: number;
+  blocks: VoxelSections; // BlockType per voxel, see sections.ts
+  light: VoxelSections; // Packed sunlight and block light per voxel, see lighting.ts
+  heightmap: Int16Array; // Highest solid block per column at z * CHUNK_SIZE + x, -1 if none - follows edits
+  dirtySections: Set<number>; // Sections whose meshes are out of date and need rebuilding
+}
+
+const chunkVoxels = new Map<string, ChunkVoxels>();
+
+// Every block edit ever made, per chunk, as voxel index -> block.
+// Kept after a chunk unloads so edits survive reloading it (and can be saved to disk)
+// as a diff against what the seeded generator produces.
+const chunkEdits = new Map<string, Map<number, BlockType>>();
+
+function voxelChunkKey(cx: number, cz: number): string {
+  return `${wrapChunkCoord(cx)},${wrapChunkCoord(cz)}`;
+}
+
+/**
+ * Converts a world coordinate to the block coordinate containing it.
+ * Block meshes are centred on integer positions, so block n spans [n - 0.5, n + 0.5).
+ */
+export function toBlockCoord(value: number): number {
+  return Math.floor(value + 0.5);
+}
+
+/**
+ * Stores the block, light and height data of a freshly generated chunk, re-applying any edits
+ * made to it before. A chunk with edits is relit and comes back dirty so its generated meshes
+ * get rebuilt.
+ */
+export function addChunkVoxels(cx: number, cz: number, blocks: VoxelSections, light: VoxelSections, heightmap: Int16Array): ChunkVoxels {
+  const edits = chunkEdits.get(voxelChunkKey(cx, cz));
+  const dirtySections = new Set<number>();
+  if (edits !== undefined && edits.size > 0) {
+    const editedColumns = new Set<number>();
+    for (const [index, block] of edits) {
+      setVoxel(blocks, index, block);
+      editedColumns.add(index % (CHUNK_SIZE * CHUNK_SIZE));
+    }
+    for (const column of editedColumns) {
+      heightmap[column] = findColumnTop(blocks, column % CHUNK_SIZE, MAX_HEIGHT - 1, Math.floor(column / CHUNK_SIZE));
+    }
+    light = packSections(computeChunkLight(unpackSections(blocks)));
+    for (let section = 0; section < SECTION_COUNT; section++) dirtySections.add(section);
+  }
+
+  const voxels: ChunkVoxels = { cx, cz, blocks, light, heightmap, dirtySections };
+  chunkVoxels.set(voxelChunkKey(cx, cz), voxels);
+  return voxels;
+}
+
+/**
+ * Forgets the block data of an unloaded chunk
+ */
+export function removeChunkVoxels(cx: number, cz: number): void {
+  chunkVoxels.delete(voxelChunkKey(cx, cz));
+}
+
+/**
+ * Returns the block data of a loaded chunk, or undefined if it isn't loaded
+ */
+export function getChunkVoxels(cx: number, cz: number): ChunkVoxels | undefined {
+  return chunkVoxels.get(voxelChunkKey(cx, cz));
+}
+
+/**
+ * Returns the block at a world position. Unloaded chunks and positions
+ * above/below the world read as air.
+ */
+export function getBlock(x: number, y: number, z: number): BlockType {
+  const wx = toBlockCoord(x);
+  const wy = toBlockCoord(y);
+  const wz = toBlockCoord(z);
+  if (wy < 0 || wy >= MAX_HEIGHT) return BlockType.Air;
+
+  const cx = Math.floor(wx / CHUNK_SIZE);
+  const cz = Math.floor(wz / CHUNK_SIZE);
+  const voxels = chunkVoxels.get(voxelChunkKey(cx, cz));
+  if (!voxels) return BlockType.Air;
+
+  return getVoxel(voxels.blocks, voxelIndex(wx - cx * CHUNK_SIZE, wy, wz - cz * CHUNK_SIZE)) as BlockType;
+}
+
+/**
+ * Changes the block at a world position, relights the voxels around it and marks the
+ * chunk dirty, along with any neighbour chunk whose border faces the changed block.
+ *
+ * @returns false if the position is outside the world or its chunk isn't loaded
+ */
+export function setBlock(x: number, y: number, z: number, block: BlockType): boolean {
+  const wx = toBlockCoord(x);
+  const wy = toBlockCoord(y);
+  const wz = toBlockCoord(z);
+  if (wy < 0 || wy >= MAX_HEIGHT) return false;
+
+  const cx = Math.floor(wx / CHUNK_SIZE);
+  const cz = Math.floor(wz / CHUNK_SIZE);
+  const voxels = chunkVoxels.get(voxelChunkKey(cx, cz));
+  if (!voxels) return false;
+
+  const localX = wx - cx * CHUNK_SIZE;
+  const localZ = wz - cz * CHUNK_SIZE;
+  const index = voxelIndex(localX, wy, localZ);
+  if (getVoxel(voxels.blocks, index) === block) return true;
+
+  setVoxel(voxels.blocks, index, block);
+  updateHeightmap(voxels, localX, wy, localZ, block);
+  recordEdit(cx, cz, index, block);
+  markBlockDirty(wx, wy, wz);
+  relightBlock(wx, wy, wz);
+
+  return true;
+}
+
+// Highest solid block of a column at or below y, -1 if none
+function findColumnTop(blocks: VoxelSections, x: number, y: number, z: number): number {
+  while (y >= 0 && !isSolidBlock(getVoxel(blocks, voxelIndex(x, y, z)) as BlockType)) y--;
+  return y;
+}
+
+// Keeps a column's height in step with a block just set in it
+function updateHeightmap(voxels: ChunkVoxels, x: number, y: number, z: number, block: BlockType): void {
+  const column = z * CHUNK_SIZE + x;
+  const top = voxels.heightmap[column]!;
+  if (isSolidBlock(block)) {
+    if (y > top) voxels.heightmap[column] = y;
+  } else if (y === top) {
+    voxels.heightmap[column] = findColumnTop(voxels.blocks, x, y - 1, z);
+  }
+}
+
+/**
+ * Returns the height of the ground at a world position: the top face of the highest solid block
+ * in its column (blocks are centred on integer coordinates, so block y tops out at y + 0.5).
+ * Undefined if the chunk isn't loaded.
+ */
+export function getSurfaceHeight(x: number, z: number): number | undefined {
+  const wx = toBlockCoord(x);
+  const wz = toBlockCoord(z);
+  const cx = Math.floor(wx / CHUNK_SIZE);
+  const cz = Math.floor(wz / CHUNK_SIZE);
+  const voxels = chunkVoxels.get(voxelChunkKey(cx, cz));
+  if (!voxels) return undefined;
+
+  return voxels.heightmap[(wz - cz * CHUNK_SIZE) * CHUNK_SIZE + wx - cx * CHUNK_SIZE]! + 0.5;
+}
+
+/**
+ * Marks the section holding a block for a mesh rebuild, along with the sections above and below
+ * and in any neighbour chunk that face the block (their faces and shading depend on it)
+ */
+export function markBlockDirty(x: number, y: number, z: number): void {
+  const cx = Math.floor(x / CHUNK_SIZE);
+  const cz = Math.floor(z / CHUNK_SIZE);
+  const localX = x - cx * CHUNK_SIZE;
+  const localZ = z - cz * CHUNK_SIZE;
+
+  // Ambient occlusion reaches one block further, so a block on a section's edge shades the next one
+  const lowest = getSectionForY(Math.max(y - 1, 0));
+  const highest = getSectionForY(Math.min(y + 1, MAX_HEIGHT - 1));
+  for (let section = lowest; section <= highest; section++) {
+    markSectionDirty(cx, cz, section);
+    if (localX === 0) markSectionDirty(cx - 1, cz, section);
+    if (localX === CHUNK_SIZE - 1) markSectionDirty(cx + 1, cz, section);
+    if (localZ === 0) markSectionDirty(cx, cz - 1, section);
+    if (localZ === CHUNK_SIZE - 1) markSectionDirty(cx, cz + 1, section);
+  }
+}
+
+function recordEdit(cx: number, cz: number, index: number, block: BlockType): void {
+  const key = voxelChunkKey(cx, cz);
+  let edits = chunkEdits.get(key);
+  if (!edits) {
+    edits = new Map();
+    chunkEdits.set(key, edits);
+  }
+  edits.set(index, block);
+}
+
+/**
+ * Returns every chunk edit as { cx, cz, edits } - used when saving the world
+ */
+export function getAllChunkEdits(): Array<{ cx: number, cz: number, edits: Map<number, BlockType> }> {
+  const result: Array<{ cx: number, cz: number, edits: Map<number, BlockType> }> = [];
+  for (const [key, edits] of chunkEdits) {
+    if (edits.size === 0) continue;
+    const [cx, cz] = key.split(',').map(Number) as [number, number];
+    result.push({ cx, cz, edits });
+  }
+  return result;
+}
+
+/**
+ * Replaces the recorded edits of a chunk - used when loading a saved world,
+ * before the chunk is generated
+ */
+export function setChunkEdits(cx: number, cz: number, edits: Map<number, BlockType>): void {
+  chunkEdits.set(voxelChunkKey(cx, cz), edits);
+}
+
+function markSectionDirty(cx: number, cz: number, section: number): void {
+  const voxels = chunkVoxels.get(voxelChunkKey(cx, cz));
+  if (voxels) voxels.dirtySections.add(section);
+}
+
+/**
+ * Returns every chunk with sections whose meshes need rebuilding, with those sections, and
+ * clears their dirty flags
+ */
+export function takeDirtySections(): Array<{ voxels: ChunkVoxels, sections: number[] }> {
+  const dirty: Array<{ voxels: ChunkVoxels, sections: number[] }> = [];
+  for (const voxels of chunkVoxels.values()) {
+    if (voxels.dirtySections.size > 0) {
+      dirty.push({ voxels, sections: [...voxels.dirtySections] });
+      voxels.dirtySections.clear();
+    }
+  }
+  return dirty;
+}
@@ -0,0 +1,106 @@
+// Flowing water simulation
+// Water only moves where something changed: edits schedule the blocks around them, and every
+// block whose water changes schedules its own neighbours, so a flow spreads (or drains) one
+// block per tick until it settles. Sources never change on their own.
+import { getBlock, setBlock, toBlockCoord } from './voxel-store';
+import { BlockType, getWaterLevel, isSolidBlock, isWaterBlock, MAX_WATER_LEVEL, waterBlockForLevel } from './blocks';
+
+const WATER_TICK_SECONDS = 0.25;
+const MAX_UPDATES_PER_TICK = 2000; // Anything beyond this waits for the next tick
+
+// Level of water falling into a block from above
+const FALLING_WATER_LEVEL = MAX_WATER_LEVEL - 1;
+
+const HORIZONTAL_NEIGHBOURS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+// Blocks to re-evaluate on the next tick, as "x,y,z"
+let pendingUpdates = new Set<string>();
+let tickTimer = 0;
+
+/**
+ * Schedules the water around a block for an update - call after changing the block
+ */
+export function scheduleWaterUpdate(x: number, y: number, z: number): void {
+  const bx = toBlockCoord(x);
+  const by = toBlockCoord(y);
+  const bz = toBlockCoord(z);
+
+  pendingUpdates.add(`${bx},${by},${bz}`);
+  pendingUpdates.add(`${bx},${by + 1},${bz}`);
+  pendingUpdates.add(`${bx},${by - 1},${bz}`);
+  for (const [dx, dz] of HORIZONTAL_NEIGHBOURS) {
+    pendingUpdates.add(`${bx + dx},${by},${bz + dz}`);
+  }
+}
+
+/**
+ * Advances the water simulation, running a tick every WATER_TICK_SECONDS
+ */
+export function updateWater(deltaTime: number): void {
+  tickTimer += deltaTime;
+  if (tickTimer < WATER_TICK_SECONDS) return;
+  tickTimer = 0;
+
+  if (pendingUpdates.size === 0) return;
+
+  // Work on a snapshot so changes made this tick spread next tick
+  const updates = pendingUpdates;
+  pendingUpdates = new Set();
+
+  let processed = 0;
+  for (const key of updates) {
+    if (processed++ >= MAX_UPDATES_PER_TICK) {
+      pendingUpdates.add(key);
+      continue;
+    }
+    const [x, y, z] = key.split(',').map(Number) as [number, number, number];
+    updateWaterBlock(x, y, z);
+  }
+}
+
+// Recomputes the water level a block should have from its neighbours and applies it
+function updateWaterBlock(x: number, y: number, z: number): void {
+  const block = getBlock(x, y, z);
+
+  // Solid blocks hold no water, and sources stay until something replaces them
+  if (isSolidBlock(block) || block === BlockType.Water) return;
+
+  const level = getFlowLevel(x, y, z);
+  if (level === getWaterLevel(block)) return;
+
+  if (setBlock(x, y, z, waterBlockForLevel(level))) {
+    scheduleWaterUpdate(x, y, z);
+  }
+}
+
+// The water level a non-source block gets from the water around it
+function getFlowLevel(x: number, y: number, z: number): number {
+  const below = getBlock(x, y - 1, z);
+
+  // A block between two sources that rests on something becomes a source itself, so holes dug
+  // next to a lake fill up instead of staying flowing water forever
+  let sources = 0;
+  for (const [dx, dz] of HORIZONTAL_NEIGHBOURS) {
+    if (getBlock(x + dx, y, z + dz) === BlockType.Water) sources++;
+  }
+  if (sources >= 2 && (isSolidBlock(below) || below === BlockType.Water)) {
+    return MAX_WATER_LEVEL;
+  }
+
+  // Water falls straight down
+  if (isWaterBlock(getBlock(x, y + 1, z))) return FALLING_WATER_LEVEL;
+
+  // Otherwise it spreads sideways from neighbours that can't fall any further, losing a level per block
+  let level = 0;
+  for (const [dx, dz] of HORIZONTAL_NEIGHBOURS) {
+    const neighbour = getBlock(x + dx, y, z + dz);
+    if (!isWaterBlock(neighbour)) continue;
+
+    const neighbourBelow = getBlock(x + dx, y - 1, z + dz);
+    const canSpread = neighbour === BlockType.Water || isSolidBlock(neighbourBelow) || neighbourBelow === BlockType.Water;
+    if (canSpread) {
+      level = Math.max(level, getWaterLevel(neighbour) - 1);
+    }
+  }
+  return level;
+}
@@ -0,0 +1,377 @@
+// Pool of generation workers
+// Jobs wait here in a priority queue and go out one at a time to whichever worker is idle, so
+// the chunks the player needs next never sit behind a backlog of ones they have left behind.
+// Queued jobs can be cancelled or reprioritised as the player moves. A worker that crashes or
+// stops answering is replaced, and its job is retried on another worker.
+//
+// Workers answer every job with a 'jobDone' or 'jobFailed' reply carrying the job's id
+// (see worker-protocol.ts).
+import type { WorkerJob, WorkerJobSpec, WorkerJobType, WorkerJobTypes, WorkerRequest, WorkerResponse } from './worker-protocol';
+
+// How long a worker gets for one job before it is considered stuck
+const JOB_TIMEOUT_MS = 15000;
+// Attempts at a job (including the first) before it fails for good
+const MAX_ATTEMPTS = 3;
+
+interface Job {
+  id: number;
+  key: string;
+  type: WorkerJobType;
+  data: WorkerJob['data'];
+  // Lower runs first
+  priority: number;
+  // Jobs the caller needs no matter what are left alone by reprioritizeJobs
+  cancellable: boolean;
+  attempts: number;
+  done: boolean;
+  // Resolves with the worker's reply data - runJob gives it the job type's result type
+  promise: Promise<unknown>;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  job: Job | null;
+  timeout: ReturnType<typeof setTimeout> | null;
+}
+
+let workerUrl = '';
+let getInitMessage: () => WorkerRequest;
+const workers: PoolWorker[] = [];
+let poolInit: { resolve: () => void, reject: (error: Error) => void } | null = null;
+
+// Binary min-heap on priority. Cancelled jobs are dropped lazily when they reach the top.
+const queue: Job[] = [];
+// Jobs that are queued or running, by key
+const jobsByKey = new Map<string, Job>();
+let nextJobId = 1;
+
+/**
+ * Starts the pool. Resolves once every worker has answered its init message (workers that fail
+ * to start are dropped - check getWorkerCount afterwards). Rejects if a worker turns the init
+ * message down, e.g. because it was built from a different generator version.
+ *
+ * @param initMessage Builds the message each new worker is started with, including replacements
+ *   for crashed workers, so it should describe the current settings
+ */
+export function initWorkerPool(url: string, size: number, initMessage: () => WorkerRequest): Promise<void> {
+  workerUrl = url;
+  getInitMessage = initMessage;
+
+  return new Promise((resolve, reject) => {
+    poolInit = { resolve, reject };
+    for (let i = 0; i < size; i++) {
+      workers.push(spawnWorker());
+    }
+    checkPoolReady();
+  });
+}
+
+/**
+ * Pool size for this machine: one worker per core, leaving one for the main thread
+ */
+export function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(8, cores - 1));
+}
+
+export function getWorkerCount(): number {
+  return workers.length;
+}
+
+// Jobs queued or running
+export function getPendingJobCount(): number {
+  return jobsByKey.size;
+}
+
+/**
+ * Queues a job. A job already pending under the same key is shared rather than run twice
+ * (its priority is raised if the new one is more urgent).
+ *
+ * @returns The `data` of the worker's reply, or null if the job was cancelled
+ */
+export function runJob<K extends WorkerJobType>(
+  key: string,
+  type: K,
+  data: WorkerJobTypes[K]['data'],
+  priority: number,
+  cancellable = true
+): Promise<WorkerJobTypes[K]['result'] | null> {
+  const existing = jobsByKey.get(key);
+  if (existing) {
+    prioritizeJob(key, priority, cancellable);
+    return existing.promise as Promise<WorkerJobTypes[K]['result'] | null>;
+  }
+
+  if (workers.length === 0) {
+    return Promise.reject(new Error('No generation workers running'));
+  }
+
+  let resolve!: (result: unknown) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<unknown>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  const job: Job = { id: nextJobId++, key, type, data, priority, cancellable, attempts: 0, done: false, promise, resolve, reject };
+  jobsByKey.set(key, job);
+  pushJob(job);
+  dispatchJobs();
+  return promise as Promise<WorkerJobTypes[K]['result'] | null>;
+}
+
+/**
+ * Raises the priority of a pending job if the new one is more urgent, and makes it uncancellable
+ * unless both callers allow cancelling. Never starts a job.
+ *
+ * @returns Whether the job was still pending
+ */
+export function prioritizeJob(key: string, priority: number, cancellable = true): boolean {
+  const job = jobsByKey.get(key);
+  if (!job) return false;
+
+  job.cancellable = job.cancellable && cancellable;
+  if (priority < job.priority) {
+    job.priority = priority;
+    rebuildQueue();
+  }
+  return true;
+}
+
+/**
+ * Cancels a pending job - it resolves with null. A job a worker has already started still
+ * finishes there, but its result is thrown away.
+ */
+export function cancelJob(key: string): void {
+  const job = jobsByKey.get(key);
+  if (job) settleJob(job, null);
+}
+
+/**
+ * Cancels every pending job, cancellable or not - for when their results would be out of date
+ */
+export function cancelAllJobs(): void {
+  for (const job of [...jobsByKey.values()]) {
+    settleJob(job, null);
+  }
+  rebuildQueue();
+}
+
+/**
+ * Recomputes the priority of every queued job that hasn't started yet. Jobs the callback
+ * returns null for are cancelled.
+ */
+export function reprioritizeJobs(getPriority: (job: WorkerJobSpec) => number | null): void {
+  for (const job of queue) {
+    if (job.done || !job.cancellable) continue;
+    const priority = getPriority({ type: job.type, data: job.data } as WorkerJobSpec);
+    if (priority === null) {
+      settleJob(job, null);
+    } else {
+      job.priority = priority;
+    }
+  }
+  rebuildQueue();
+}
+
+/**
+ * Sends a message to every worker, e.g. a settings change. Jobs already running are not affected.
+ */
+export function postToAllWorkers(message: WorkerRequest): void {
+  for (const poolWorker of workers) {
+    poolWorker.worker.postMessage(message);
+  }
+}
+
+function spawnWorker(): PoolWorker {
+  const poolWorker: PoolWorker = { worker: new Worker(workerUrl), ready: false, job: null, timeout: null };
+
+  poolWorker.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const message = e.data;
+
+    if (message.type === 'initialized') {
+      poolWorker.ready = true;
+      checkPoolReady();
+      dispatchJobs();
+      return;
+    }
+
+    if (message.type === 'initFailed') {
+      failPool(new Error(message.data.message));
+      return;
+    }
+
+    // Replies always belong to the job this worker is running - a cancelled job still finishes here
+    const job = poolWorker.job;
+    if (!job || job.id !== message.jobId) return;
+
+    finishRun(poolWorker);
+    if (message.type === 'jobFailed') {
+      console.error(`❌ Worker job ${job.key} failed: ${message.data.message}`);
+      settleJob(job, new Error(message.data.message));
+    } else {
+      settleJob(job, message.data);
+    }
+    dispatchJobs();
+  };
+
+  poolWorker.worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    replaceWorker(poolWorker, `crashed: ${e.message}`);
+  };
+  poolWorker.worker.onmessageerror = () => {
+    replaceWorker(poolWorker, 'sent a message that could not be read');
+  };
+
+  poolWorker.worker.postMessage(getInitMessage());
+  return poolWorker;
+}
+
+// Throws away a broken worker and puts its job back in the queue for another one
+function replaceWorker(poolWorker: PoolWorker, reason: string): void {
+  const index = workers.indexOf(poolWorker);
+  if (index === -1) return; // Already replaced
+  console.warn(`⚠️ Generation worker ${reason}`);
+
+  const job = poolWorker.job;
+  finishRun(poolWorker);
+  poolWorker.worker.terminate();
+
+  // A worker that never got as far as starting up will fail again - don't respawn it
+  if (poolWorker.ready) {
+    workers[index] = spawnWorker();
+  } else {
+    workers.splice(index, 1);
+    console.error('❌ Generation worker failed to start');
+    checkPoolReady();
+  }
+
+  if (job && !job.done) {
+    if (job.attempts >= MAX_ATTEMPTS) {
+      settleJob(job, new Error(`Worker job ${job.key} failed after ${job.attempts} attempts`));
+    } else {
+      console.log(`🔁 Retrying worker job ${job.key}`);
+      pushJob(job);
+    }
+  }
+
+  if (workers.length === 0) {
+    // Nothing left to run the queue
+    for (const queued of [...jobsByKey.values()]) {
+      settleJob(queued, new Error('No generation workers running'));
+    }
+  }
+  dispatchJobs();
+}
+
+// Hands queued jobs to idle workers, most urgent first
+function dispatchJobs(): void {
+  for (const poolWorker of workers) {
+    if (!poolWorker.ready || poolWorker.job) continue;
+
+    const job = popJob();
+    if (!job) return;
+
+    job.attempts++;
+    poolWorker.job = job;
+    poolWorker.timeout = setTimeout(() => replaceWorker(poolWorker, `timed out on ${job.key}`), JOB_TIMEOUT_MS);
+    const request = { type: job.type, data: job.data, jobId: job.id } as WorkerJob;
+    poolWorker.worker.postMessage(request);
+  }
+}
+
+function finishRun(poolWorker: PoolWorker): void {
+  if (poolWorker.timeout !== null) clearTimeout(poolWorker.timeout);
+  poolWorker.timeout = null;
+  poolWorker.job = null;
+}
+
+// Completes a job with a result (null when cancelled) or an error
+function settleJob(job: Job, result: unknown): void {
+  if (job.done) return;
+  job.done = true;
+  jobsByKey.delete(job.key);
+  if (result instanceof Error) {
+    job.reject(result);
+  } else {
+    job.resolve(result);
+  }
+}
+
+function checkPoolReady(): void {
+  if (poolInit && workers.every(poolWorker => poolWorker.ready)) {
+    poolInit.resolve();
+    poolInit = null;
+  }
+}
+
+// Shuts every worker down for good and fails everything waiting on them
+function failPool(error: Error): void {
+  console.error(`❌ Generation workers refused to start: ${error.message}`);
+  for (const poolWorker of workers) {
+    finishRun(poolWorker);
+    poolWorker.worker.terminate();
+  }
+  workers.length = 0;
+
+  for (const job of [...jobsByKey.values()]) {
+    settleJob(job, error);
+  }
+  poolInit?.reject(error);
+  poolInit = null;
+}
+
+function pushJob(job: Job): void {
+  queue.push(job);
+  siftUp(queue.length - 1);
+}
+
+function popJob(): Job | null {
+  while (queue.length > 0) {
+    const top = queue[0]!;
+    const last = queue.pop()!;
+    if (queue.length > 0) {
+      queue[0] = last;
+      siftDown(0);
+    }
+    if (!top.done) return top;
+  }
+  return null;
+}
+
+// Drops settled jobs and restores the heap order after priorities changed
+function rebuildQueue(): void {
+  const live = queue.filter(job => !job.done);
+  queue.length = 0;
+  queue.push(...live);
+  for (let i = (queue.length >> 1) - 1; i >= 0; i--) {
+    siftDown(i);
+  }
+}
+
+function siftUp(index: number): void {
+  const job = queue[index]!;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (queue[parent]!.priority <= job.priority) break;
+    queue[index] = queue[parent]!;
+    index = parent;
+  }
+  queue[index] = job;
+}
+
+function siftDown(index: number): void {
+  const job = queue[index]!;
+  for (;;) {
+    let child = index * 2 + 1;
+    if (child >= queue.length) break;
+    if (child + 1 < queue.length && queue[child + 1]!.priority < queue[child]!.priority) child++;
+    if (queue[child]!.priority >= job.priority) break;
+    queue[index] = queue[child]!;
+    index = child;
+  }
+  queue[index] = job;
+}
@@ -0,0 +1,61 @@
+// Messages between the main thread and the chunk workers
+// Both ends import these types, so changing a message on one side is a type error on the other.
+// The worker bundle (public/chunk-worker.js) is built separately from the page, though, so the
+// two can still drift apart at runtime - the init handshake compares GENERATOR_VERSION and the
+// worker refuses to start on a mismatch rather than quietly generating different terrain.
+import type { BiomeDefinition } from './biomes';
+import type { BlockDefinition } from './blocks';
+import type { ChunkPayload, MeshPayload } from './chunk-payload';
+import type { LodEdgeSteps } from './lod-mesher';
+import type { StructureTemplate } from './structure-templates';
+
+// Bump whenever the same config would generate different terrain, or a message changes shape
+export const GENERATOR_VERSION = 8;
+
+// Everything the generator's output depends on. Workers get it at init and whenever it changes.
+export interface GenerationConfig {
+  seed: number;
+  flatTerrain: boolean;
+  // Chunk coordinates the world spans, inclusive on both ends
+  worldBounds: { min: number, max: number };
+  // The world repeats across worldBounds instead of ending at them
+  wrapWorld: boolean;
+  blocks: BlockDefinition[];
+  biomes: BiomeDefinition[];
+  structures: StructureTemplate[];
+  // Centres of the town halls, in world block coordinates
+  townHalls: Array<{ x: number, z: number }>;
+}
+
+// What each kind of job is sent and what a worker answers with
+export interface WorkerJobTypes {
+  generateChunk: {
+    data: { cx: number, cz: number };
+    result: ChunkPayload;
+  };
+  generateLod: {
+    data: { tx: number, tz: number, step: number, edgeSteps: LodEdgeSteps };
+    result: { tx: number, tz: number, step: number, mesh: MeshPayload };
+  };
+}
+
+export type WorkerJobType = keyof WorkerJobTypes;
+
+// A job's type and data, one variant per job type
+export type WorkerJobSpec = {
+  [K in WorkerJobType]: { type: K, data: WorkerJobTypes[K]['data'] }
+}[WorkerJobType];
+
+// A job as sent to a worker
+export type WorkerJob = WorkerJobSpec & { jobId: number };
+
+export type WorkerRequest =
+  | { type: 'init', data: { generatorVersion: number, config: GenerationConfig } }
+  | { type: 'configure', data: { config: GenerationConfig } }
+  | WorkerJob;
+
+export type WorkerResponse =
+  | { type: 'initialized', data: { generatorVersion: number } }
+  | { type: 'initFailed', data: { generatorVersion: number, message: string } }
+  | { type: 'jobDone', jobId: number, data: WorkerJobTypes[WorkerJobType]['result'] }
+  | { type: 'jobFailed', jobId: number, data: { message: string } };
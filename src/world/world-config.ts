@@ -0,0 +1,156 @@
+// World config
+// How big the world is and what happens at its edge. The size is a whole number of chunks centred
+// on the origin, so a world of sizeChunks spans chunks -sizeChunks/2 to sizeChunks/2 - 1 on both
+// axes. Everything that works in blocks (player movement, the minimap, town placement) converts
+// through getWorldBlockBounds rather than reusing the chunk numbers.
+import { CHUNK_SIZE } from './terrain';
+
+// What the edge of the world does:
+// - wall: the player can't walk past it and nothing is generated beyond it
+// - wrap: the world repeats - walking out over one edge brings the player back in at the opposite
+//   one, and the terrain runs on across the seam (see setWorldWrap in terrain.ts)
+// - infinite: there is no edge - sizeChunks only sets the area the minimap shows and towns spread over
+export type WorldBorder = 'wall' | 'wrap' | 'infinite';
+
+export const WORLD_BORDERS: readonly WorldBorder[] = ['wall', 'wrap', 'infinite'];
+
+export interface WorldConfig {
+  // Chunks along each side, even
+  sizeChunks: number;
+  border: WorldBorder;
+}
+
+// Inclusive on both ends
+export interface WorldBounds {
+  min: number;
+  max: number;
+}
+
+// How far the player stays from a wall, so their body doesn't poke through it
+const WALL_PADDING = 0.5;
+
+let worldConfig: WorldConfig = { sizeChunks: 100, border: 'wall' };
+
+export function getWorldConfig(): Readonly<WorldConfig> {
+  return worldConfig;
+}
+
+/**
+ * Changes the world size or border. Call before the chunk workers are started - chunks that are
+ * already loaded are not regenerated.
+ */
+export function setWorldConfig(changes: Partial<WorldConfig>): void {
+  const config = { ...worldConfig, ...changes };
+  if (!Number.isInteger(config.sizeChunks) || config.sizeChunks < 2 || config.sizeChunks % 2 !== 0) {
+    throw new Error(`World size must be an even number of chunks - got ${config.sizeChunks}`);
+  }
+  if (!WORLD_BORDERS.includes(config.border)) {
+    throw new Error(`Unknown world border "${config.border}"`);
+  }
+  worldConfig = config;
+}
+
+/**
+ * Chunk coordinates the world spans - the settled area, whatever the border
+ */
+export function getWorldChunkBounds(): WorldBounds {
+  return { min: -worldConfig.sizeChunks / 2, max: worldConfig.sizeChunks / 2 - 1 };
+}
+
+/**
+ * World block coordinates the world spans, from the first block of the lowest chunk to the last
+ * block of the highest one
+ */
+export function getWorldBlockBounds(): WorldBounds {
+  const chunks = getWorldChunkBounds();
+  return { min: chunks.min * CHUNK_SIZE, max: (chunks.max + 1) * CHUNK_SIZE - 1 };
+}
+
+/**
+ * Chunk coordinates that may be generated - unbounded for an infinite world
+ */
+export function getGeneratedChunkBounds(): WorldBounds {
+  return worldConfig.border === 'infinite' ? { min: -Infinity, max: Infinity } : getWorldChunkBounds();
+}
+
+export function isChunkInWorld(cx: number, cz: number): boolean {
+  const { min, max } = getGeneratedChunkBounds();
+  return cx >= min && cx <= max && cz >= min && cz <= max;
+}
+
+/**
+ * The chunk coordinate inside the world that a chunk coordinate stands for - in a wrapping world
+ * the chunks past an edge are the ones at the opposite edge. Unchanged for other borders.
+ */
+export function wrapChunkCoord(cx: number): number {
+  if (worldConfig.border !== 'wrap') return cx;
+  const { min } = getWorldChunkBounds();
+  const size = worldConfig.sizeChunks;
+  return min + ((cx - min) % size + size) % size;
+}
+
+/**
+ * The copy of a chunk coordinate (or a point between chunks) closest to another one - where a
+ * wrapping world shows a chunk to a player standing in chunk nearCx. Unchanged for other borders.
+ */
+export function getNearestChunkCopy(cx: number, nearCx: number): number {
+  if (worldConfig.border !== 'wrap') return cx;
+  const size = worldConfig.sizeChunks;
+  return cx + Math.round((nearCx - cx) / size) * size;
+}
+
+/**
+ * The block coordinate inside the world that a block coordinate stands for, like wrapChunkCoord
+ */
+export function wrapBlockCoord(x: number): number {
+  if (worldConfig.border !== 'wrap') return x;
+  const { min, max } = getWorldBlockBounds();
+  const size = max - min + 1;
+  return min + ((x - min) % size + size) % size;
+}
+
+/**
+ * Keeps a position inside the world: stops it at a wall or carries it over to the opposite edge.
+ * Returns true if the position was moved.
+ */
+export function constrainToWorld(position: { x: number, z: number }): boolean {
+  if (worldConfig.border === 'infinite') return false;
+
+  const { min, max } = getWorldBlockBounds();
+  // Blocks are centred on their coordinates, so the world's outer faces are half a block further out
+  const low = min - 0.5;
+  const high = max + 0.5;
+  const x = constrainCoord(position.x, low, high);
+  const z = constrainCoord(position.z, low, high);
+  if (x === position.x && z === position.z) return false;
+
+  position.x = x;
+  position.z = z;
+  return true;
+}
+
+function constrainCoord(value: number, low: number, high: number): number {
+  if (worldConfig.border === 'wall') {
+    return Math.min(Math.max(value, low + WALL_PADDING), high - WALL_PADDING);
+  }
+  if (value >= low && value < high) return value;
+  const size = high - low;
+  return low + ((value - low) % size + size) % size;
+}
+
+/**
+ * Where the town halls stand, in world block coordinates: one in the middle of each quarter of
+ * the world
+ */
+export function getTownHallSites(): Array<{ x: number, z: number }> {
+  const { min, max } = getWorldBlockBounds();
+  const size = max - min + 1;
+  const near = Math.round(min + size * 0.25);
+  const far = Math.round(min + size * 0.75);
+  return [
+    { x: near, z: near }, // Southwest
+    { x: far, z: near },  // Southeast
+    { x: near, z: far },  // Northwest
+    { x: far, z: far }    // Northeast
+  ];
+}
@@ -0,0 +1,74 @@
+// World clock
+// Time of day runs from 0 to 1: 0 is midnight, 0.25 sunrise, 0.5 noon and 0.75 sunset.
+// The renderer reads it to light the world; villagers, spawning and the HUD can read it too.
+
+// Real seconds in one full day
+export const DAY_LENGTH_SECONDS = 20 * 60;
+
+// Time of day a new world starts at - mid morning
+const START_TIME_OF_DAY = 0.3;
+
+export enum DayPhase {
+  Night = 'night',
+  Dawn = 'dawn',
+  Day = 'day',
+  Dusk = 'dusk'
+}
+
+let timeOfDay = START_TIME_OF_DAY;
+let day = 0; // Days passed since the world was created
+
+/**
+ * Moves the clock forward by real seconds
+ */
+export function advanceWorldTime(deltaTime: number): void {
+  timeOfDay += deltaTime / DAY_LENGTH_SECONDS;
+  if (timeOfDay >= 1) {
+    day += Math.floor(timeOfDay);
+    timeOfDay %= 1;
+  }
+}
+
+// Fraction of the current day that has passed, in [0, 1)
+export function getTimeOfDay(): number {
+  return timeOfDay;
+}
+
+// Number of whole days since the world was created
+export function getDay(): number {
+  return day;
+}
+
+/**
+ * Sets the clock, e.g. from a save
+ */
+export function setWorldTime(newDay: number, newTimeOfDay: number): void {
+  day = Math.max(0, Math.floor(newDay));
+  timeOfDay = ((newTimeOfDay % 1) + 1) % 1;
+}
+
+export function getDayPhase(): DayPhase {
+  if (timeOfDay < 0.22 || timeOfDay >= 0.8) return DayPhase.Night;
+  if (timeOfDay < 0.3) return DayPhase.Dawn;
+  if (timeOfDay < 0.7) return DayPhase.Day;
+  return DayPhase.Dusk;
+}
+
+// Whether it is dark enough for night-time behaviour
+export function isNight(): boolean {
+  return getDayPhase() === DayPhase.Night;
+}
+
+/**
+ * Height of the sun above the horizon, from -1 (midnight) to 1 (noon)
+ */
+export function getSunElevation(): number {
+  return Math.sin((timeOfDay - 0.25) * Math.PI * 2);
+}
+
+// Clock time as "HH:MM", for display
+export function formatTimeOfDay(): string {
+  const minutes = Math.floor(timeOfDay * 24 * 60);
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}